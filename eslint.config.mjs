@@ -98,4 +98,11 @@ export default [
 			"@typescript-eslint/no-unsafe-argument": "warn",
 		},
 	},
+	{
+		// Tests run in Node.js, not in Obsidian
+		files: ["tests/**/*.ts"],
+		rules: {
+			"import/no-nodejs-modules": "off",
+		},
+	},
 ];
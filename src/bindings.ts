@@ -0,0 +1,136 @@
+import { App, Component, Notice, TFile } from "obsidian";
+import { PropertyType } from "./types";
+import { getPropertyValue, setPropertyValue } from "./paths";
+import { findPropertyType } from "./properties";
+import { toStringList } from "./fields";
+import { toNumber } from "./matcher";
+
+type BindableElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+// The placeholders that values and note content are rendered into as markdown
+const MARKDOWN_SELECTOR = '[id^="cv-md-"], [id^="cv-content-"], .markdown-rendered-content';
+
+/**
+ * Connects the inputs of a rendered view that have a `data-cv-bind` attribute to a frontmatter property
+ * of the note. Each input shows the property's current value, and changing it writes the new value back.
+ * Call it before markdown is rendered into the view's placeholders, so inputs from values are never bound.
+ * @param app - The Obsidian app instance
+ * @param file - The note the view is rendered for
+ * @param container - The rendered view
+ * @param component - The component owning this render, which removes the listeners when it unloads
+ */
+export function bindInputs(app: App, file: TFile, container: HTMLElement, component: Component): void {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+
+	container.querySelectorAll("[data-cv-bind]").forEach((el) => {
+		// Only the template's own inputs are bound, not HTML inside values or the note's content
+		if (!isBindable(el) || el.closest(MARKDOWN_SELECTOR)) return;
+
+		const path = el.getAttribute("data-cv-bind")?.trim();
+		if (!path) return;
+		if (path === "file" || path.startsWith("file.")) {
+			console.warn(`[Custom Views] Can't bind an input to '${path}': file properties are read-only.`);
+			return;
+		}
+
+		setInputValue(el, getPropertyValue(frontmatter, path));
+		component.registerDomEvent(el, "change", () => {
+			void writeBoundValue(app, file, path, el);
+		});
+	});
+}
+
+function isBindable(el: Element): el is BindableElement {
+	return el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement;
+}
+
+/**
+ * Shows a property value in an input
+ * @param el - The input
+ * @param value - The property value
+ */
+function setInputValue(el: BindableElement, value: unknown): void {
+	const values = toStringList(value);
+
+	if (el instanceof HTMLInputElement && el.type === "checkbox") {
+		// A checkbox with a value stands for that item of a list, otherwise for the whole property
+		el.checked = Array.isArray(value) ? values.includes(el.value) : value === true || value === "true";
+	} else if (el instanceof HTMLInputElement && el.type === "radio") {
+		el.checked = values.length === 1 && values[0] === el.value;
+	} else if (el instanceof HTMLSelectElement && el.multiple) {
+		Array.from(el.options).forEach(option => {
+			option.selected = values.includes(option.value);
+		});
+	} else if (value === null || value === undefined || typeof value !== "object" || Array.isArray(value)) {
+		el.value = values.join(", ");
+	}
+}
+
+/**
+ * Writes the value of an input to the note's frontmatter, converted to the property's type
+ * @param app - The Obsidian app instance
+ * @param file - The note to write to
+ * @param path - The property path
+ * @param el - The input that changed
+ */
+async function writeBoundValue(app: App, file: TFile, path: string, el: BindableElement): Promise<void> {
+	const type = findPropertyType(app, file, path);
+	try {
+		await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			setPropertyValue(frontmatter, path, readInputValue(el, type, getPropertyValue(frontmatter, path)));
+		});
+	} catch (e) {
+		console.error(`[Custom Views] Could not update '${path}' of '${file.path}':`, e);
+		new Notice(`Could not update "${path}": ${e instanceof Error ? e.message : String(e)}`);
+	}
+}
+
+/**
+ * Reads the value of an input as a property value
+ * @param el - The input
+ * @param type - The inferred type of the property
+ * @param current - The property's current value, used when a checkbox toggles one item of a list
+ * @returns The value to write
+ * @throws Error if the input's value can't be converted to the property's type
+ */
+function readInputValue(el: BindableElement, type: PropertyType, current: unknown): unknown {
+	if (el instanceof HTMLInputElement && el.type === "checkbox") {
+		if (type !== "list") return el.checked;
+		const items = toStringList(current).filter(item => item !== el.value);
+		return el.checked ? [...items, el.value] : items;
+	}
+
+	if (el instanceof HTMLSelectElement && el.multiple) {
+		const selected = Array.from(el.selectedOptions).map(option => option.value);
+		return type === "list" || type === "unknown" ? selected : selected.join(", ");
+	}
+
+	const raw = el.value;
+	switch (type) {
+		case "number":
+			return readNumber(raw);
+		case "checkbox":
+			if (raw === "true" || raw === "false") return raw === "true";
+			throw new Error(`"${raw}" is not true or false.`);
+		case "list":
+			return raw.split(",").map(item => item.trim()).filter(item => item.length > 0);
+		case "date":
+		case "datetime":
+			return raw || null;
+		case "unknown":
+			// A property no note has a value for yet takes its type from the input
+			return el instanceof HTMLInputElement && (el.type === "number" || el.type === "range") ? readNumber(raw) : raw;
+		default:
+			return raw;
+	}
+}
+
+/**
+ * Reads a number from an input; an empty input clears the property
+ * @throws Error if the input is not empty and not a number
+ */
+function readNumber(raw: string): number | null {
+	const number = toNumber(raw);
+	if (number === null && raw.trim() !== "") throw new Error(`"${raw}" is not a number.`);
+	return number;
+}
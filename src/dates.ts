@@ -0,0 +1,90 @@
+import { moment } from "obsidian";
+
+type DateUnit = "day" | "week" | "month" | "quarter" | "year";
+
+const UNIT_PATTERN = "(day|week|month|quarter|year)s?";
+const ANCHOR_REGEX = /^(today|now|yesterday|tomorrow|(start|end) of (day|week|month|quarter|year))\b/;
+const OFFSET_REGEX = new RegExp(`^([+-])\\s*(\\d+)\\s*${UNIT_PATTERN}$`);
+const AGO_REGEX = new RegExp(`^(\\d+)\\s*${UNIT_PATTERN}\\s+ago$`);
+const IN_REGEX = new RegExp(`^in\\s+(\\d+)\\s*${UNIT_PATTERN}$`);
+
+/**
+ * Relative date values offered as suggestions in the filter builder.
+ */
+export const RELATIVE_DATE_SUGGESTIONS = [
+	"today",
+	"yesterday",
+	"tomorrow",
+	"start of week",
+	"end of week",
+	"start of month",
+	"end of month",
+	"start of year",
+	"-7 days",
+	"+7 days",
+	"-1 month"
+];
+
+/**
+ * Resolves a date filter value to the start of a calendar day.
+ * Accepts absolute dates (YYYY-MM-DD, with optional time) and relative values such as
+ * "today", "yesterday", "start of week", "end of month", "-7 days", "3 weeks ago", "in 2 months"
+ * or an anchor followed by an offset ("start of month +14 days").
+ * @param value - The filter value to resolve
+ * @returns The resolved day, or null if the value is not a recognised date
+ */
+export function resolveDateValue(value: string): moment.Moment | null {
+	const input = value.trim().toLowerCase().replace(/\s+/g, " ");
+	if (!input) return null;
+
+	const absolute = moment(value.trim(), moment.ISO_8601, true);
+	if (absolute.isValid()) return absolute.startOf("day");
+
+	let base = moment().startOf("day");
+	let rest = input;
+
+	const anchor = rest.match(ANCHOR_REGEX);
+	if (anchor) {
+		if (anchor[1] === "yesterday") base.subtract(1, "day");
+		else if (anchor[1] === "tomorrow") base.add(1, "day");
+		else if (anchor[2] === "start") base = base.startOf(anchor[3] as DateUnit);
+		else if (anchor[2] === "end") base = base.endOf(anchor[3] as DateUnit).startOf("day");
+		rest = rest.substring(anchor[0].length).trim();
+	}
+
+	if (!rest) return base;
+
+	const offset = rest.match(OFFSET_REGEX);
+	if (offset) {
+		const amount = parseInt(offset[2]) * (offset[1] === "-" ? -1 : 1);
+		return base.add(amount, offset[3] as DateUnit);
+	}
+
+	// "N units ago" and "in N units" only read naturally without an anchor
+	if (!anchor) {
+		const ago = rest.match(AGO_REGEX);
+		if (ago) return base.subtract(parseInt(ago[1]), ago[2] as DateUnit);
+
+		const inFuture = rest.match(IN_REGEX);
+		if (inFuture) return base.add(parseInt(inFuture[1]), inFuture[2] as DateUnit);
+	}
+
+	return null;
+}
+
+/**
+ * Converts a property value to the start of its calendar day.
+ * @param value - A timestamp (as used by file.ctime/file.mtime) or an ISO date/datetime string
+ * @returns The day, or null if the value is not a date
+ */
+export function toDay(value: unknown): moment.Moment | null {
+	if (typeof value === "number") {
+		const m = moment(value);
+		return m.isValid() ? m.startOf("day") : null;
+	}
+	if (typeof value === "string" && value.trim()) {
+		const m = moment(value.trim(), moment.ISO_8601, true);
+		return m.isValid() ? m.startOf("day") : null;
+	}
+	return null;
+}
@@ -0,0 +1,165 @@
+import { App, Modal, TFile, setIcon } from "obsidian";
+import { ViewConfig, FilterConjunction } from "./types";
+import { explainRules, FilterExplanation, GroupExplanation } from "./matcher";
+import { RemovedMarkup } from "./sanitizer";
+
+const CONJUNCTION_LABELS: Record<FilterConjunction, string> = {
+	"AND": "All the following are true",
+	"OR": "Any of the following are true",
+	"NOR": "None of the following are true"
+};
+
+/**
+ * Modal that runs every view's rules against a file and shows the full evaluation tree,
+ * so it is clear why a view did or did not apply.
+ */
+export class ExplainMatchModal extends Modal {
+	file: TFile;
+	views: ViewConfig[];
+	enabled: boolean;
+	/** What the sanitizer removed when the file was last rendered, and with which view */
+	sanitizeReport?: { viewId: string, removed: RemovedMarkup[] };
+
+	constructor(app: App, file: TFile, views: ViewConfig[], enabled: boolean, sanitizeReport?: { viewId: string, removed: RemovedMarkup[] }) {
+		super(app);
+		this.file = file;
+		this.views = views;
+		this.enabled = enabled;
+		this.sanitizeReport = sanitizeReport;
+		this.setTitle("Explain view matching");
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("cv-explain-modal");
+
+		contentEl.createDiv({ cls: "cv-explain-file", text: this.file.path });
+
+		if (!this.enabled) {
+			contentEl.createDiv({
+				cls: "cv-explain-note",
+				text: "Custom views are disabled, so no view is applied. Rules are still evaluated below."
+			});
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(this.file)?.frontmatter;
+		const explanations = this.views.map(view => ({
+			view,
+			explanation: explainRules(this.app, view.rules, this.file, frontmatter)
+		}));
+
+		// Views are checked in order, so the first match wins
+		const winner = explanations.find(e => e.explanation.result);
+		contentEl.createDiv({
+			cls: "cv-explain-summary",
+			text: winner
+				? `Matching view: ${winner.view.name}`
+				: "No view matches, so the default view is shown."
+		});
+
+		if (this.views.length === 0) {
+			contentEl.createDiv({ cls: "cv-explain-note", text: "No views are configured." });
+			return;
+		}
+
+		explanations.forEach(({ view, explanation }, index) => {
+			const isWinner = winner?.view === view;
+			const section = contentEl.createEl("details", { cls: "cv-explain-view" });
+			section.open = isWinner;
+
+			const summary = section.createEl("summary", { cls: "cv-explain-view-header" });
+			summary.createSpan({ cls: "cv-explain-view-name", text: `${index + 1}. ${view.name}` });
+
+			let status = explanation.result ? "Matches" : "Does not match";
+			if (explanation.result && !isWinner) status = "Matches, but an earlier view wins";
+			if (isWinner) status = "Applied";
+			summary.createSpan({
+				cls: `cv-explain-badge ${explanation.result ? "mod-success" : "mod-failure"}`,
+				text: status
+			});
+
+			this.renderGroup(section, explanation);
+
+			if (isWinner) {
+				this.renderSanitizeReport(section, view);
+			}
+		});
+	}
+
+	/**
+	 * Lists what the sanitizer removed the last time the note was rendered with the view
+	 */
+	renderSanitizeReport(container: HTMLElement, view: ViewConfig) {
+		const report = this.sanitizeReport;
+		if (!report || report.viewId !== view.id) return;
+
+		const reportEl = container.createDiv({ cls: "cv-explain-sanitize" });
+		const policy = view.sanitizePolicy ?? "standard";
+		if (report.removed.length === 0) {
+			reportEl.createDiv({ cls: "cv-explain-note", text: `Nothing was removed from the rendered view by the ${policy} HTML policy.` });
+			return;
+		}
+
+		reportEl.createDiv({ cls: "cv-explain-note", text: `Removed from the rendered view by the ${policy} HTML policy:` });
+		const list = reportEl.createEl("ul");
+		for (const item of report.removed) {
+			const entry = list.createEl("li");
+			entry.createEl("code", { text: item.description });
+			if (item.count > 1) entry.appendText(` (${item.count} times)`);
+		}
+	}
+
+	renderGroup(container: HTMLElement, group: GroupExplanation) {
+		const groupEl = container.createDiv({ cls: "cv-explain-group" });
+		const header = groupEl.createDiv({ cls: "cv-explain-line" });
+		this.renderResultIcon(header, group.result);
+		header.createSpan({ cls: "cv-explain-conjunction", text: CONJUNCTION_LABELS[group.operator] || group.operator });
+
+		if (group.conditions.length === 0) {
+			groupEl.createDiv({ cls: "cv-explain-empty", text: "No conditions, so this group always matches." });
+			return;
+		}
+
+		const list = groupEl.createDiv({ cls: "cv-explain-conditions" });
+		for (const condition of group.conditions) {
+			if (condition.type === "group") {
+				this.renderGroup(list, condition);
+			} else {
+				this.renderFilter(list, condition);
+			}
+		}
+	}
+
+	renderFilter(container: HTMLElement, explanation: FilterExplanation) {
+		const { filter } = explanation;
+		const line = container.createDiv({ cls: "cv-explain-line cv-explain-filter" });
+		this.renderResultIcon(line, explanation.result);
+
+		const expression = line.createSpan({ cls: "cv-explain-expression" });
+		expression.createEl("code", { text: filter.field });
+		expression.appendText(` ${filter.operator} `);
+		if (filter.value) {
+			expression.createEl("code", { text: filter.value });
+		}
+		if (explanation.resolvedValue) {
+			expression.appendText(` (${explanation.resolvedValue})`);
+		}
+		if (filter.matchMode && filter.matchMode !== "exact") {
+			expression.appendText(`, ${filter.matchMode}`);
+		}
+
+		line.createDiv({ cls: "cv-explain-target", text: `Note value: ${explanation.target}` });
+	}
+
+	renderResultIcon(container: HTMLElement, result: boolean) {
+		const icon = container.createSpan({ cls: `cv-explain-result ${result ? "mod-success" : "mod-failure"}` });
+		setIcon(icon, result ? "check" : "x");
+		icon.setAttribute("aria-label", result ? "True" : "False");
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
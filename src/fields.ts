@@ -0,0 +1,203 @@
+import { App, TFile, FrontMatterCache, ListItemCache } from "obsidian";
+
+/**
+ * A task list item, as returned by {{file.tasks}}
+ */
+export interface TaskField {
+	/** The task text without the checkbox; empty when the note's content is not available */
+	text: string;
+	/** The character inside the checkbox, e.g. " ", "x" or "/" */
+	status: string;
+	done: boolean;
+	/** The 0-based line number of the task */
+	line: number;
+}
+
+/**
+ * A list item that is a task, with its status character
+ */
+export type TaskItem = ListItemCache & { task: string };
+
+/**
+ * Reads a built-in property of a file, as used by {{file.*}} placeholders.
+ * @param app - The Obsidian app instance
+ * @param file - The file to read from
+ * @param key - The property name, without the file. prefix
+ * @param content - The full text of the file, if already read; needed for `words` and the text of `tasks`
+ * @returns The value, or undefined if there is no such property
+ */
+export function getFileField(app: App, file: TFile, key: string, content?: string): unknown {
+	switch (key) {
+		case "name": return file.name;
+		case "basename": return file.basename;
+		case "path": return file.path;
+		case "folder": return file.parent?.path || "";
+		case "extension": return file.extension;
+		case "size": return file.stat.size;
+		case "ctime": return file.stat.ctime; // Timestamp for dates
+		case "mtime": return file.stat.mtime;
+		case "tags": return getFileTags(app, file);
+		case "aliases": return getFileAliases(app, file);
+		case "links": return getOutgoingLinks(app, file);
+		case "backlinks": return getBacklinkPaths(app, file).map(path => `[[${path.replace(/\.md$/, "")}]]`);
+		case "embeds": return getEmbeds(app, file);
+		case "headings": return (app.metadataCache.getFileCache(file)?.headings || []).map(heading => heading.heading);
+		case "tasks": return getTaskFields(app, file, content);
+		case "words": return content === undefined ? undefined : countWords(getBody(app, file, content));
+		case "url": return app.vault.getResourcePath(file);
+		default: return undefined;
+	}
+}
+
+/**
+ * Gets the tags of a file from both the body and the frontmatter, without the # prefix
+ * @param app - The Obsidian app instance
+ * @param file - The file to read tags from
+ * @param frontmatter - The frontmatter to read, if it differs from the cached one
+ * @returns The tags, each listed once
+ */
+export function getFileTags(app: App, file: TFile, frontmatter?: FrontMatterCache): string[] {
+	const cache = app.metadataCache.getFileCache(file);
+	const bodyTags = (cache?.tags || []).map(tag => tag.tag.replace(/^#+/, ""));
+
+	const frontmatterTags = (frontmatter ?? cache?.frontmatter)?.tags as unknown;
+	const frontmatterTagList = toStringList(frontmatterTags).map(tag => tag.replace(/^#+/, ""));
+
+	return unique([...bodyTags, ...frontmatterTagList]);
+}
+
+/**
+ * Gets the aliases of a file from its frontmatter
+ * @param app - The Obsidian app instance
+ * @param file - The file to read aliases from
+ * @param frontmatter - The frontmatter to read, if it differs from the cached one
+ * @returns The aliases, each listed once
+ */
+export function getFileAliases(app: App, file: TFile, frontmatter?: FrontMatterCache): string[] {
+	const cacheAliases = app.metadataCache.getFileCache(file)?.frontmatter?.aliases as unknown;
+	const frontmatterAliases = frontmatter?.aliases as unknown;
+	return unique([...toStringList(frontmatterAliases), ...toStringList(cacheAliases)]);
+}
+
+/**
+ * Gets the links from a file's body and frontmatter
+ * @param app - The Obsidian app instance
+ * @param file - The file to read links from
+ * @returns The links as [[wikilinks]], each listed once, including links to notes that don't exist yet
+ */
+function getOutgoingLinks(app: App, file: TFile): string[] {
+	const cache = app.metadataCache.getFileCache(file);
+	const links = [...(cache?.links || []), ...(cache?.frontmatterLinks || [])];
+	return unique(links.map(link => `[[${link.link}]]`));
+}
+
+/**
+ * Gets the other files linking to a file, based on the resolved link graph
+ * @param app - The Obsidian app instance
+ * @param file - The file to find backlinks for
+ * @returns The paths of the linking files
+ */
+export function getBacklinkPaths(app: App, file: TFile): string[] {
+	const resolvedLinks = app.metadataCache.resolvedLinks;
+	return Object.keys(resolvedLinks).filter(sourcePath => {
+		return sourcePath !== file.path && (resolvedLinks[sourcePath][file.path] || 0) > 0;
+	});
+}
+
+/**
+ * Gets the files embedded in a file
+ * @param app - The Obsidian app instance
+ * @param file - The file to read embeds from
+ * @returns The embedded files as [[wikilinks]] (not embeds, so rendering the list doesn't embed them)
+ */
+function getEmbeds(app: App, file: TFile): string[] {
+	const embeds = app.metadataCache.getFileCache(file)?.embeds || [];
+	return unique(embeds.map(embed => `[[${embed.link}]]`));
+}
+
+/**
+ * Gets the task list items of a file
+ * @param app - The Obsidian app instance
+ * @param file - The file to read tasks from
+ * @returns The list items that are tasks (checked or not), in order
+ */
+export function getTaskItems(app: App, file: TFile): TaskItem[] {
+	const listItems = app.metadataCache.getFileCache(file)?.listItems || [];
+	return listItems.filter((item): item is TaskItem => item.task !== undefined);
+}
+
+/**
+ * Checks whether a task is done
+ * @param item - The task list item
+ * @returns True for any status character other than a space
+ */
+export function isTaskDone(item: TaskItem): boolean {
+	return item.task !== " ";
+}
+
+/**
+ * Gets the tasks of a file
+ * @param app - The Obsidian app instance
+ * @param file - The file to read tasks from
+ * @param content - The full text of the file, to read the task text from
+ * @returns The tasks, in order
+ */
+function getTaskFields(app: App, file: TFile, content?: string): TaskField[] {
+	return getTaskItems(app, file).map(item => ({
+		text: content === undefined ? "" : getTaskText(content, item),
+		status: item.task,
+		done: isTaskDone(item),
+		line: item.position.start.line
+	}));
+}
+
+/**
+ * Reads the text of a task from the file content
+ * @param content - The full text of the file
+ * @param item - The task list item
+ * @returns The first line of the task, without the list marker and checkbox
+ */
+function getTaskText(content: string, item: ListItemCache): string {
+	const source = content.substring(item.position.start.offset, item.position.end.offset);
+	const firstLine = source.split("\n")[0];
+	return firstLine.replace(/^\s*(?:[-*+]|\d+[.)])\s+\[.\]\s?/, "").trim();
+}
+
+/**
+ * Gets the body of a file, without its frontmatter
+ * @param app - The Obsidian app instance
+ * @param file - The file
+ * @param content - The full text of the file
+ * @returns The text after the frontmatter
+ */
+function getBody(app: App, file: TFile, content: string): string {
+	const frontmatterEnd = app.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset;
+	return frontmatterEnd ? content.substring(frontmatterEnd) : content;
+}
+
+/**
+ * Counts the words of a text, ignoring markdown markers such as `#`, `-` or `>`
+ * @param text - The text
+ * @returns The number of words
+ */
+function countWords(text: string): number {
+	return text.split(/\s+/).filter(word => /[A-Za-z0-9\u00C0-\uFFFF]/.test(word)).length;
+}
+
+/**
+ * Converts a frontmatter value that may be a single value or a list to a list of strings
+ * @param value - The value
+ * @returns The value's items as strings, without empty items
+ */
+export function toStringList(value: unknown): string[] {
+	if (value === undefined || value === null) return [];
+	if (Array.isArray(value)) return value.filter(item => item !== null && item !== undefined).map(item => String(item));
+	return [String(value)];
+}
+
+/**
+ * Removes duplicates from a list, keeping the first occurrence
+ */
+function unique(values: string[]): string[] {
+	return values.filter((value, index) => values.indexOf(value) === index);
+}
@@ -1,4 +1,6 @@
-import { moment } from "obsidian";
+import { App, TFile, moment } from "obsidian";
+import { resolveLinkedNote, readNoteValue } from "./links";
+import { isPlainObject } from "./paths";
 
 /**
  * Parse arguments like: "YYYY-MM-DD" or ("a", "b")
@@ -46,6 +48,16 @@ function cleanQuote(str: string): string | number {
 type FilterValue = string | number | string[] | number[] | boolean | null | undefined;
 type FilterFunction = (value: FilterValue, ...args: unknown[]) => FilterValue;
 
+/**
+ * The note a template is rendered for, needed by filters that look at other notes.
+ */
+export interface FilterContext {
+	app: App;
+	sourcePath: string;
+}
+
+type ContextFilterFunction = (context: FilterContext, value: FilterValue, ...args: unknown[]) => FilterValue;
+
 /**
  * Registry of filter functions available for template value transformation.
  * Each filter takes a value and optional arguments, returning a transformed value.
@@ -122,6 +134,9 @@ const filters: Record<string, FilterFunction> = {
 	},
 	count: (val: FilterValue) => Array.isArray(val) ? val.length : String(val).length,
 
+	// Leaves the value unchanged; the renderer inserts values with this filter as HTML, without escaping
+	raw: (val: FilterValue) => val,
+
 	calc: (val: number, opString: string) => {
 		const trimmed = opString.trim();
 		const base = parseFloat(String(val));
@@ -147,12 +162,51 @@ const filters: Record<string, FilterFunction> = {
 	}
 };
 
+/**
+ * Converts a property read from another note to a filter value.
+ * @param value - The property value
+ * @returns The value, with nested mappings as JSON
+ */
+function toFilterValue(value: unknown): FilterValue {
+	if (value === undefined || value === null) return null;
+	if (isPlainObject(value)) return JSON.stringify(value);
+	if (Array.isArray(value)) return value.map(item => isPlainObject(item) ? JSON.stringify(item) : String(item));
+	return value as FilterValue;
+}
+
+/**
+ * Filters that follow links, so they need to know which note is being rendered.
+ * `note` turns links into the paths of the notes they point to, `prop` reads a property of linked notes.
+ */
+const contextFilters: Record<string, ContextFilterFunction> = {
+	note: (context: FilterContext, val: FilterValue) => {
+		const toPath = (item: unknown) => resolveLinkedNote(context.app, item, context.sourcePath)?.path ?? null;
+		if (Array.isArray(val)) return (val as unknown[]).map(toPath).filter((path): path is string => path !== null);
+		return toPath(val);
+	},
+	prop: (context: FilterContext, val: FilterValue, path?: unknown) => {
+		if (typeof path !== 'string' || !path) return val;
+		// Accepts note paths (from `note`) as well as links
+		const read = (item: unknown): unknown => {
+			const byPath = typeof item === 'string' ? context.app.vault.getAbstractFileByPath(item) : null;
+			const note = byPath instanceof TFile ? byPath : resolveLinkedNote(context.app, item, context.sourcePath);
+			return note ? readNoteValue(context.app, note, path) : undefined;
+		};
+		if (Array.isArray(val)) {
+			const values = (val as unknown[]).map(read).filter(value => value !== undefined && value !== null);
+			return toFilterValue(([] as unknown[]).concat(...values));
+		}
+		return toFilterValue(read(val));
+	}
+};
+
 /**
  * Applies a chain of filters to a value.
  * Filters are separated by pipes (|) and can include arguments after a colon.
  *
  * @param value - The value to transform
  * @param filterChain - Pipe-separated filter chain (e.g., "upper | replace:\"old\",\"new\"")
+ * @param context - The note being rendered; filters that follow links are skipped without it
  * @returns The transformed value after applying all filters in sequence
  *
  * @example
@@ -160,25 +214,10 @@ const filters: Record<string, FilterFunction> = {
  * applyFilterChain("  test  ", "trim | upper") // Returns: "TEST"
  * applyFilterChain(1234567890, "date:\"YYYY-MM-DD\"") // Returns formatted date
  */
-export function applyFilterChain(value: FilterValue, filterChain: string): FilterValue {
+export function applyFilterChain(value: FilterValue, filterChain: string, context?: FilterContext): FilterValue {
 	if (!filterChain) return value;
 
-	const steps: string[] = [];
-	let current = '';
-	let inQuote = false;
-
-	for (let i = 0; i < filterChain.length; i++) {
-		const char = filterChain[i];
-		if (char === '"' || char === "'") inQuote = !inQuote;
-
-		if (char === '|' && !inQuote) {
-			steps.push(current.trim());
-			current = '';
-		} else {
-			current += char;
-		}
-	}
-	if (current) steps.push(current.trim());
+	const steps = splitFilterChain(filterChain);
 
 	let result = value;
 
@@ -195,7 +234,11 @@ export function applyFilterChain(value: FilterValue, filterChain: string): Filte
 			args = parseArgs(argString);
 		}
 
-		const fn = filters[name];
+		let fn: FilterFunction | undefined = filters[name];
+		const contextFn = contextFilters[name] as ContextFilterFunction | undefined;
+		if (!fn && contextFn && context) {
+			fn = (val: FilterValue, ...rest: unknown[]) => contextFn(context, val, ...rest);
+		}
 		if (fn) {
 			try {
 				result = fn(result, ...args);
@@ -207,3 +250,39 @@ export function applyFilterChain(value: FilterValue, filterChain: string): Filte
 
 	return result;
 }
+
+/**
+ * Checks whether a filter chain opts out of escaping with the raw filter.
+ * @param filterChain - Pipe-separated filter chain
+ * @returns True if any step of the chain is `raw`
+ */
+export function isRawFilterChain(filterChain: string | undefined): boolean {
+	if (!filterChain) return false;
+	return splitFilterChain(filterChain).some(step => step === "raw");
+}
+
+/**
+ * Splits a filter chain into its steps, ignoring pipes inside quoted arguments.
+ * @param filterChain - Pipe-separated filter chain
+ * @returns The trimmed steps
+ */
+function splitFilterChain(filterChain: string): string[] {
+	const steps: string[] = [];
+	let current = '';
+	let inQuote = false;
+
+	for (let i = 0; i < filterChain.length; i++) {
+		const char = filterChain[i];
+		if (char === '"' || char === "'") inQuote = !inQuote;
+
+		if (char === '|' && !inQuote) {
+			steps.push(current.trim());
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	if (current) steps.push(current.trim());
+
+	return steps;
+}
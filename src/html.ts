@@ -0,0 +1,444 @@
+/**
+ * Where in an HTML document a placeholder is, which decides how its value has to be escaped:
+ * - "text": between tags, where values are rendered as markdown
+ * - "tag": inside a tag but not in an attribute value, e.g. `<div {{x}}>`
+ * - "attribute": inside an attribute value, quoted or not
+ * - "script" / "style": inside the content of a script or style element
+ * - "comment": inside an HTML comment
+ */
+export type HtmlContext = "text" | "tag" | "attribute" | "script" | "style" | "comment";
+
+/**
+ * Where in the JavaScript of a script element a placeholder is: in code, inside a quoted string,
+ * inside a template literal or inside a comment. Regex literals are not recognized.
+ */
+export type ScriptPosition = "code" | "string" | "template" | "comment";
+
+// Elements whose content is not parsed as HTML, so the scanner skips to their end tag
+const RAW_TEXT_ELEMENTS = ["script", "style"];
+
+/** Attributes whose value is a URL, where a javascript: URL runs as a script when followed */
+export const URL_ATTRIBUTES = ["href", "src", "action", "formaction", "data", "xlink:href"];
+
+/**
+ * Follows a template's literal HTML as it is written, one piece at a time, to tell what context the
+ * next placeholder is in. Only literal template text is fed in, never substituted values.
+ */
+export class HtmlContextTracker {
+	private state: "text" | "tagName" | "tag" | "beforeValue" | "doubleQuoted" | "singleQuoted" | "unquoted" | "comment" | "rawText" = "text";
+	private tagName = "";
+	private isEndTag = false;
+	private rawTextElement = "";
+	// The name of the attribute being written, and whether it is complete so the next name starts a new one
+	private attributeName = "";
+	private attributeNameDone = true;
+	// The last characters seen that may be the start of a tag, `<!--`, `-->` or a raw text end tag
+	private pending = "";
+	private scriptState: "code" | "singleQuoted" | "doubleQuoted" | "template" | "lineComment" | "blockComment" = "code";
+	private scriptEscape = false;
+	private previousScriptChar = "";
+
+	/**
+	 * Feeds the next piece of literal template text to the tracker
+	 * @param text - The literal text
+	 */
+	feed(text: string): void {
+		for (let i = 0; i < text.length; i++) {
+			this.step(text[i]);
+		}
+	}
+
+	/**
+	 * Gets the context a value inserted at the current position would be in
+	 * @returns The context
+	 */
+	getContext(): HtmlContext {
+		switch (this.state) {
+			case "text": return this.pending ? "tag" : "text";
+			case "tagName":
+			case "tag":
+				return "tag";
+			case "beforeValue":
+			case "doubleQuoted":
+			case "singleQuoted":
+			case "unquoted":
+				return "attribute";
+			case "comment": return "comment";
+			case "rawText": return this.rawTextElement === "script" ? "script" : "style";
+		}
+	}
+
+	/**
+	 * Whether an attribute value at the current position is unquoted, e.g. `<div class={{x}}>`,
+	 * so that whitespace in the value would start a new attribute
+	 * @returns True if the value is not inside quotes
+	 */
+	isUnquotedAttribute(): boolean {
+		return this.state === "beforeValue" || this.state === "unquoted";
+	}
+
+	/**
+	 * Gets the name of the attribute whose value is at the current position
+	 * @returns The lowercase attribute name; only meaningful when the context is "attribute"
+	 */
+	getAttributeName(): string {
+		return this.attributeName;
+	}
+
+	/**
+	 * Gets where in the JavaScript of a script element or event handler attribute a value inserted at the
+	 * current position would be
+	 * @returns The position; only meaningful when the context is "script" or the attribute is an event handler
+	 */
+	getScriptPosition(): ScriptPosition {
+		switch (this.scriptState) {
+			case "singleQuoted":
+			case "doubleQuoted":
+				return "string";
+			case "template": return "template";
+			case "lineComment":
+			case "blockComment":
+				return "comment";
+			default: return "code";
+		}
+	}
+
+	private step(char: string): void {
+		switch (this.state) {
+			case "text":
+				this.stepText(char);
+				break;
+			case "tagName":
+				if (/\s/.test(char) || char === "/") {
+					this.state = "tag";
+				} else if (char === ">") {
+					this.endTag();
+				} else {
+					this.tagName += char.toLowerCase();
+				}
+				break;
+			case "tag":
+				if (char === ">") {
+					this.endTag();
+				} else if (char === "=") {
+					this.state = "beforeValue";
+				} else if (/\s/.test(char) || char === "/") {
+					this.attributeNameDone = true;
+				} else {
+					if (this.attributeNameDone) {
+						this.attributeName = "";
+						this.attributeNameDone = false;
+					}
+					this.attributeName += char.toLowerCase();
+				}
+				break;
+			case "beforeValue":
+				if (char === '"') {
+					this.startAttributeValue("doubleQuoted");
+				} else if (char === "'") {
+					this.startAttributeValue("singleQuoted");
+				} else if (char === ">") {
+					this.endTag();
+				} else if (!/\s/.test(char)) {
+					this.startAttributeValue("unquoted");
+					this.stepAttributeValue(char);
+				}
+				break;
+			case "doubleQuoted":
+				if (char === '"') this.endAttributeValue();
+				else this.stepAttributeValue(char);
+				break;
+			case "singleQuoted":
+				if (char === "'") this.endAttributeValue();
+				else this.stepAttributeValue(char);
+				break;
+			case "unquoted":
+				if (/\s/.test(char)) {
+					this.endAttributeValue();
+				} else if (char === ">") {
+					this.endTag();
+				} else {
+					this.stepAttributeValue(char);
+				}
+				break;
+			case "comment":
+				this.pending = (this.pending + char).slice(-3);
+				if (this.pending === "-->") {
+					this.state = "text";
+					this.pending = "";
+				}
+				break;
+			case "rawText": {
+				if (this.rawTextElement === "script") this.stepScript(char);
+				const endTag = `</${this.rawTextElement}`;
+				this.pending = (this.pending + char).slice(-endTag.length);
+				if (this.pending.toLowerCase() === endTag) {
+					this.state = "tagName";
+					this.tagName = this.rawTextElement;
+					this.isEndTag = true;
+					this.pending = "";
+				}
+				break;
+			}
+		}
+	}
+
+	private stepText(char: string): void {
+		const isLetter = /[A-Za-z]/.test(char);
+		switch (this.pending) {
+			case "":
+				if (char === "<") this.pending = "<";
+				return;
+			case "<":
+				if (isLetter) {
+					this.startTagName(char, false);
+				} else if (char === "/" || char === "!") {
+					this.pending += char;
+				} else if (char === "?") {
+					// Processing instructions are skipped like tags
+					this.state = "tag";
+					this.pending = "";
+				} else {
+					// A `<` that doesn't start a tag, e.g. `a < b`
+					this.pending = char === "<" ? "<" : "";
+				}
+				return;
+			case "</":
+				if (isLetter) {
+					this.startTagName(char, true);
+				} else {
+					this.pending = "";
+				}
+				return;
+			case "<!":
+			case "<!-":
+				if (char === "-") {
+					this.pending += char;
+					if (this.pending === "<!--") {
+						this.state = "comment";
+						this.pending = "";
+					}
+				} else {
+					// `<!DOCTYPE html>` and similar declarations are skipped like tags
+					this.state = "tag";
+					this.pending = "";
+				}
+				return;
+		}
+	}
+
+	private startAttributeValue(state: "doubleQuoted" | "singleQuoted" | "unquoted"): void {
+		this.state = state;
+		this.attributeNameDone = true;
+		this.resetScript();
+	}
+
+	private stepAttributeValue(char: string): void {
+		// Event handler values are JavaScript, followed like the content of a script element
+		if (this.attributeName.startsWith("on")) this.stepScript(char);
+	}
+
+	private endAttributeValue(): void {
+		this.state = "tag";
+		this.attributeName = "";
+	}
+
+	private resetScript(): void {
+		this.scriptState = "code";
+		this.scriptEscape = false;
+		this.previousScriptChar = "";
+	}
+
+	private stepScript(char: string): void {
+		const previous = this.previousScriptChar;
+		this.previousScriptChar = char;
+
+		switch (this.scriptState) {
+			case "code":
+				if (char === "'") this.scriptState = "singleQuoted";
+				else if (char === '"') this.scriptState = "doubleQuoted";
+				else if (char === "`") this.scriptState = "template";
+				else if (previous === "/" && char === "/") this.scriptState = "lineComment";
+				else if (previous === "/" && char === "*") {
+					this.scriptState = "blockComment";
+					// The `*` of `/*` doesn't also start the `*/` that ends the comment
+					this.previousScriptChar = "";
+				}
+				return;
+			case "singleQuoted":
+			case "doubleQuoted":
+			case "template": {
+				if (this.scriptEscape) {
+					this.scriptEscape = false;
+					return;
+				}
+				const quote = this.scriptState === "singleQuoted" ? "'" : this.scriptState === "doubleQuoted" ? '"' : "`";
+				if (char === "\\") {
+					this.scriptEscape = true;
+				} else if (char === quote || (char === "\n" && this.scriptState !== "template")) {
+					this.scriptState = "code";
+				}
+				return;
+			}
+			case "lineComment":
+				if (char === "\n") this.scriptState = "code";
+				return;
+			case "blockComment":
+				if (previous === "*" && char === "/") {
+					this.scriptState = "code";
+					this.previousScriptChar = "";
+				}
+				return;
+		}
+	}
+
+	private startTagName(char: string, isEndTag: boolean): void {
+		this.state = "tagName";
+		this.tagName = char.toLowerCase();
+		this.isEndTag = isEndTag;
+		this.pending = "";
+	}
+
+	private endTag(): void {
+		if (!this.isEndTag && RAW_TEXT_ELEMENTS.indexOf(this.tagName) !== -1) {
+			this.state = "rawText";
+			this.rawTextElement = this.tagName;
+			this.resetScript();
+		} else {
+			this.state = "text";
+		}
+		this.tagName = "";
+		this.isEndTag = false;
+		this.attributeName = "";
+		this.attributeNameDone = true;
+		this.pending = "";
+	}
+}
+
+/**
+ * Escapes text for use inside an HTML attribute value or element content
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+/**
+ * Escapes text for use as an unquoted attribute value
+ * @param text - The text to escape
+ * @returns The escaped text, with whitespace and other characters that would end the value as entities
+ */
+export function escapeUnquotedAttribute(text: string): string {
+	return escapeHtml(text).replace(/[\s=`]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Checks whether a value can be used inside a tag, as a tag or attribute name
+ * @param text - The value
+ * @returns True if the value is a name other than an event handler attribute
+ */
+export function isSafeTagName(text: string): boolean {
+	return /^[A-Za-z0-9_:.-]*$/.test(text) && !/^on/i.test(text);
+}
+
+/**
+ * Escapes a value inserted into an attribute value. Values in event handlers are escaped as JavaScript first,
+ * since the browser decodes the entities before the handler runs, and javascript: URLs are dropped from
+ * URL attributes.
+ * @param value - The value
+ * @param name - The attribute's name, lowercase
+ * @param position - Where in the JavaScript of an event handler the value is
+ * @param unquoted - Whether the attribute value is unquoted
+ * @returns The escaped value
+ */
+export function escapeAttributeValue(value: string | number | boolean | string[], name: string, position: ScriptPosition, unquoted: boolean): string {
+	let text = String(value);
+	if (name.startsWith("on")) {
+		text = escapeScriptValue(value, position);
+	} else if (URL_ATTRIBUTES.indexOf(name) !== -1 && isJavascriptUrl(text)) {
+		// Even where the template's own javascript: links are kept, a value can't add one
+		return "";
+	}
+	return unquoted ? escapeUnquotedAttribute(text) : escapeHtml(text);
+}
+
+/**
+ * Escapes a value inserted into JavaScript, in a script element or an event handler
+ * @param value - The value
+ * @param position - Where in the JavaScript the value is
+ * @returns The value escaped as part of a string, a complete literal in code, or nothing in a comment
+ */
+export function escapeScriptValue(value: string | number | boolean | string[], position: ScriptPosition): string {
+	switch (position) {
+		case "string":
+		case "template":
+			return escapeScriptString(String(value));
+		case "comment":
+			return "";
+		default:
+			// Outside a string a value becomes a literal of its own, never code
+			return toScriptLiteral(value);
+	}
+}
+
+/**
+ * Escapes text for use inside a JavaScript string or template literal in a script element
+ * @param text - The text to escape
+ * @returns The escaped text, without surrounding quotes
+ */
+export function escapeScriptString(text: string): string {
+	return escapeScriptSource(JSON.stringify(text).slice(1, -1))
+		.replace(/'/g, "\\u0027")
+		.replace(/`/g, "\\u0060")
+		.replace(/\$/g, "\\u0024");
+}
+
+/**
+ * Converts a value to a JavaScript literal for use as code in a script element, e.g. `const p = {{progress}};`
+ * @param value - The value
+ * @returns A string, number, boolean, list or object literal, or `null`
+ */
+export function toScriptLiteral(value: unknown): string {
+	const json = JSON.stringify(value);
+	return json === undefined ? "null" : escapeScriptSource(json);
+}
+
+/**
+ * Escapes the characters of JavaScript source that could end the script element or a line
+ */
+function escapeScriptSource(source: string): string {
+	return source
+		.replace(/</g, "\\u003c")
+		.replace(/>/g, "\\u003e")
+		.replace(/\u2028/g, "\\u2028")
+		.replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * Checks whether a URL uses the javascript: scheme, the way a browser reads it
+ * @param value - The URL
+ * @returns True for javascript: URLs
+ */
+export function isJavascriptUrl(value: string): boolean {
+	// Browsers ignore whitespace and control characters inside the scheme
+	let scheme = "";
+	for (let i = 0; i < value.length && scheme.length < "javascript:".length; i++) {
+		if (value.charCodeAt(i) > 0x20) scheme += value[i];
+	}
+	return scheme.toLowerCase() === "javascript:";
+}
+
+/**
+ * Escapes text for use inside a style element, e.g. as a property value
+ * @param text - The text to escape
+ * @returns The text with characters that could end the value or the element escaped
+ */
+export function escapeStyleText(text: string): string {
+	return text.replace(/[^\w\s#.,%-]/g, char => `\\${char.charCodeAt(0).toString(16)} `);
+}
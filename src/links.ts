@@ -0,0 +1,94 @@
+import { App, TFile, getLinkpath } from "obsidian";
+import { getPropertyValue, parsePropertyPath, walkPropertyPath } from "./paths";
+import { getFileField } from "./fields";
+
+/**
+ * Extracts the link target from a property value such as `[[Ursula K. Le Guin]]`, `[[People/Ursula|Ursula]]`,
+ * `[Ursula](People/Ursula.md)` or a plain note name.
+ * @param value - The property value
+ * @returns The link path (without heading or alias), or null if the value is empty
+ */
+export function getLinkpathFromValue(value: string): string | null {
+	const text = value.trim();
+	if (!text) return null;
+
+	const wikilink = text.match(/^!?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/);
+	if (wikilink) return getLinkpath(wikilink[1].trim());
+
+	const markdownLink = text.match(/^!?\[[^\]]*\]\(([^)]+)\)$/);
+	if (markdownLink) return getLinkpath(decodeLinkTarget(markdownLink[1].trim()));
+
+	return getLinkpath(text);
+}
+
+/**
+ * Decodes the percent-escapes of a markdown link target, e.g. `My%20Note.md`
+ * @param target - The link target
+ * @returns The decoded target, or the target as written if it has a malformed escape such as `100%.md`
+ */
+function decodeLinkTarget(target: string): string {
+	try {
+		return decodeURI(target);
+	} catch {
+		return target;
+	}
+}
+
+/**
+ * Resolves a property value holding a link to the note it points to.
+ * @param app - The Obsidian app instance
+ * @param value - The property value, e.g. `[[Ursula K. Le Guin]]`
+ * @param sourcePath - The path of the note the link is in, used to resolve relative links
+ * @returns The linked note, or null if the value is not a link to an existing note
+ */
+export function resolveLinkedNote(app: App, value: unknown, sourcePath: string): TFile | null {
+	if (value instanceof TFile) return value;
+	if (typeof value !== "string") return null;
+
+	const linkpath = getLinkpathFromValue(value);
+	if (!linkpath) return null;
+	return app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+}
+
+/**
+ * Reads a property of a note by path. Paths starting with `file.` read built-in file properties,
+ * everything else reads the note's frontmatter.
+ * @param app - The Obsidian app instance
+ * @param file - The note to read from
+ * @param path - The property path, e.g. `born` or `file.basename`
+ * @returns The value, or undefined if it doesn't exist
+ */
+export function readNoteValue(app: App, file: TFile, path: string): unknown {
+	if (path.startsWith("file.")) {
+		const segments = parsePropertyPath(path.substring(5));
+		return walkPropertyPath(getFileField(app, file, String(segments[0])), segments.slice(1));
+	}
+	return getPropertyValue(app.metadataCache.getFileCache(file)?.frontmatter, path);
+}
+
+/**
+ * Follows a link value into the linked note and reads a property there.
+ * Lists of links are followed one by one, giving a list of values.
+ * @param app - The Obsidian app instance
+ * @param value - The link, or list of links
+ * @param path - The property path to read in the linked note
+ * @param sourcePath - The path of the note the links are in
+ * @returns The value (or list of values), or undefined if the link can't be resolved
+ */
+export function dereferenceLink(app: App, value: unknown, path: string, sourcePath: string): unknown {
+	if (Array.isArray(value)) {
+		const results: unknown[] = [];
+		for (const item of value) {
+			const result = dereferenceLink(app, item, path, sourcePath);
+			if (result === undefined || result === null) continue;
+			// Flatten, so following a list of links to list properties gives one list
+			if (Array.isArray(result)) results.push(...(result as unknown[]));
+			else results.push(result);
+		}
+		return results;
+	}
+
+	const note = resolveLinkedNote(app, value, sourcePath);
+	if (!note) return undefined;
+	return readNoteValue(app, note, path);
+}
@@ -1,10 +1,16 @@
-import { Plugin, TFile, MarkdownView, Keymap, Notice, WorkspaceLeaf } from "obsidian";
+import { Plugin, TFile, MarkdownView, Keymap, Notice, WorkspaceLeaf, Debouncer, debounce, Component } from "obsidian";
 import { CustomViewsSettings, DEFAULT_SETTINGS, CustomViewsSettingTab } from "./settings";
-import { checkRules } from "./matcher";
 import { renderTemplate } from "./renderer";
+import { ExplainMatchModal } from "./explain";
+import { ViewResolver } from "./resolver";
+import { ViewConfig } from "./types";
+import { resolveScriptMode } from "./scripting";
+import { RemovedMarkup } from "./sanitizer";
 
 const CUSTOM_VIEW_CLASS = "obsidian-custom-view-render";
 const HIDE_MARKDOWN_CLASS = "obsidian-custom-view-hidden";
+// Quiet period after the last edit before open views re-render
+const REFRESH_DELAY = 300;
 
 /**
  * Interface for canvas node structure
@@ -32,10 +38,29 @@ function isCanvasView(view: unknown): view is CanvasView {
 	return typeof view === "object" && view !== null && "canvas" in view;
 }
 
+/**
+ * Checks whether a view has a template to render, either inline or in a file
+ */
+function hasTemplate(view: ViewConfig): boolean {
+	return !!view.template || !!view.templateFile;
+}
+
 export default class CustomViewsPlugin extends Plugin {
 	settings: CustomViewsSettings;
+	resolver: ViewResolver;
+	private pendingRefreshPaths = new Set<string>();
+	private refreshPendingFiles: Debouncer<[], void> = debounce(() => this.flushPendingRefreshes(), REFRESH_DELAY, true);
+	// The component of the last render of each custom view element, which owns what its scripts registered,
+	// and the view it is a child of
+	private renderComponents = new WeakMap<HTMLElement, { component: Component, owner: Component }>();
+	// The latest render started for each custom view element; earlier renders still running stop when they see it changed
+	private renderIds = new WeakMap<HTMLElement, number>();
+	private nextRenderId = 0;
+	// What the sanitizer removed from the last render of each note, for the explain modal
+	private sanitizeReports = new Map<string, { viewId: string, removed: RemovedMarkup[] }>();
 
 	async onload() {
+		this.resolver = new ViewResolver(this.app);
 		await this.loadSettings();
 		this.addSettingTab(new CustomViewsSettingTab(this.app, this));
 
@@ -65,6 +90,51 @@ export default class CustomViewsPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "explain-view-matching",
+			name: "Explain view matching for the current note",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (checking) return true;
+
+				new ExplainMatchModal(this.app, file, this.settings.views, this.settings.enabled, this.sanitizeReports.get(file.path)).open();
+				return true;
+			},
+		});
+
+		// Keep cached view matches in sync with the vault, and open views in sync with their notes
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				this.resolver.invalidateFile(file.path);
+				this.scheduleRefresh(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("resolved", () => this.resolver.invalidateLinkGraph())
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.resolver.invalidateFile(oldPath);
+				this.resolver.invalidateFile(file.path);
+				void this.updateTemplateFilePaths(oldPath, file.path);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				// Live reload views whose template is stored in a vault file
+				if (this.settings.views.some(view => view.templateFile === file.path)) {
+					this.refreshViewsUsingTemplateFile(file.path);
+				} else if (file instanceof TFile && file.extension === "md") {
+					this.scheduleRefresh(file.path);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.resolver.invalidateFile(file.path))
+		);
+
 		this.registerEvent(
 			this.app.workspace.on("file-open", (file) => this.processActiveView(file))
 		);
@@ -110,7 +180,35 @@ export default class CustomViewsPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Queues a re-render of the open notes showing a file. Rapid changes (typing, sync) are
+	 * collected and rendered once things are quiet.
+	 * @param path - The path of the changed file
+	 */
+	scheduleRefresh(path: string) {
+		if (!this.settings.enabled) return;
+
+		this.pendingRefreshPaths.add(path);
+		this.refreshPendingFiles();
+	}
+
+	/**
+	 * Re-renders every open note whose file changed since the last refresh
+	 */
+	flushPendingRefreshes() {
+		const paths = this.pendingRefreshPaths;
+		this.pendingRefreshPaths = new Set();
+
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (!(leaf.view instanceof MarkdownView) || !leaf.view.file) return;
+			if (!paths.has(leaf.view.file.path)) return;
+
+			void this.processMarkdownView(leaf.view, leaf.view.file);
+		});
+	}
+
 	onunload() {
+		this.refreshPendingFiles.cancel();
 		this.app.workspace.iterateAllLeaves((leaf) => {
 			if (leaf.view instanceof MarkdownView) {
 				this.restoreDefaultView(leaf.view);
@@ -126,25 +224,23 @@ export default class CustomViewsPlugin extends Plugin {
 		const leaf = this.app.workspace.getLeaf(false);
 		if (!(leaf.view instanceof MarkdownView)) return;
 
-		const view = leaf.view;
+		await this.processMarkdownView(leaf.view, file);
+	}
 
+	/**
+	 * Renders the matching custom view into a markdown view, or restores the default view
+	 * @param view - The markdown view to render into
+	 * @param file - The file shown in the view
+	 */
+	async processMarkdownView(view: MarkdownView, file: TFile) {
 		if (!this.settings.enabled) {
 			this.restoreDefaultView(view);
 			return;
 		}
 
-		const cache = this.app.metadataCache.getFileCache(file);
-		let matchedTemplate = "";
-
-		for (const viewConfig of this.settings.views) {
-			const isMatch = checkRules(this.app, viewConfig.rules, file, cache?.frontmatter);
-			if (isMatch) {
-				matchedTemplate = viewConfig.template;
-				break;
-			}
-		}
+		const matchedView = this.resolver.getMatchingView(file);
 
-		if (!matchedTemplate) {
+		if (!matchedView || !hasTemplate(matchedView)) {
 			this.restoreDefaultView(view);
 			return;
 		}
@@ -167,10 +263,58 @@ export default class CustomViewsPlugin extends Plugin {
 			return;
 		}
 
-		await this.injectCustomView(view.contentEl, file, matchedTemplate);
+		await this.injectCustomView(view.contentEl, file, matchedView, view);
+	}
+
+	/**
+	 * Re-renders every open note whose view reads its template from a file
+	 * @param path - The path of the template file
+	 */
+	refreshViewsUsingTemplateFile(path: string) {
+		if (!this.settings.enabled) return;
+
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (!(leaf.view instanceof MarkdownView) || !leaf.view.file) return;
+			if (this.resolver.getMatchingView(leaf.view.file)?.templateFile !== path) return;
+
+			void this.processMarkdownView(leaf.view, leaf.view.file);
+		});
+	}
+
+	/**
+	 * Keeps views pointing at their template file when it is moved or renamed
+	 * @param oldPath - The previous path of the file
+	 * @param newPath - The new path of the file
+	 */
+	async updateTemplateFilePaths(oldPath: string, newPath: string) {
+		const views = this.settings.views.filter(view => view.templateFile === oldPath);
+		if (views.length === 0) return;
+
+		views.forEach(view => view.templateFile = newPath);
+		await this.saveSettings();
+	}
+
+	/**
+	 * Gets the template of a view, reading it from the vault if it is stored in a file
+	 * @param view - The view
+	 * @returns The template, or null if the template file doesn't exist
+	 */
+	async loadViewTemplate(view: ViewConfig): Promise<string | null> {
+		if (!view.templateFile) return view.template;
+
+		const templateFile = this.app.vault.getAbstractFileByPath(view.templateFile);
+		if (!(templateFile instanceof TFile)) return null;
+		return this.app.vault.cachedRead(templateFile);
 	}
 
-	async injectCustomView(container: HTMLElement, file: TFile, template: string) {
+	/**
+	 * Renders a view's template into a container, replacing the previous render
+	 * @param container - The element of the note's preview to render into
+	 * @param file - The note
+	 * @param view - The view to render
+	 * @param owner - The markdown or canvas view showing the note; closing it unloads the render
+	 */
+	async injectCustomView(container: HTMLElement, file: TFile, view: ViewConfig, owner: Component) {
 		let customEl = container.querySelector(`.${CUSTOM_VIEW_CLASS}`) as HTMLElement;
 
 		if (!customEl) {
@@ -194,23 +338,92 @@ export default class CustomViewsPlugin extends Plugin {
 			});
 		}
 
-		await renderTemplate(this.app, template, file, customEl, this);
+		// Re-rendering the same note keeps the reader's place; a different note starts at the top
+		const isSameFile = customEl.getAttribute("data-path") === file.path;
+		const scrollTop = isSameFile ? customEl.scrollTop : 0;
+		customEl.setAttribute("data-path", file.path);
+
+		// Renders of the same element can overlap, e.g. file-open and layout-change for the same note;
+		// only the latest one may change the element
+		const renderId = ++this.nextRenderId;
+		this.renderIds.set(customEl, renderId);
+		const isCurrent = () => this.renderIds.get(customEl) === renderId;
+
+		const template = await this.loadViewTemplate(view);
+		if (!isCurrent()) return;
+		if (template === null) {
+			this.releaseRender(customEl);
+			customEl.empty();
+			customEl.createDiv({
+				cls: "cv-template-error",
+				text: `Template file "${view.templateFile}" of view "${view.name}" was not found.`
+			});
+		} else {
+			const scripts = await resolveScriptMode(view, template);
+			if (!isCurrent()) return;
+			this.releaseRender(customEl);
+			const renderComponent = owner.addChild(new Component());
+			this.renderComponents.set(customEl, { component: renderComponent, owner });
+			const removed = await renderTemplate(this.app, template, file, customEl, renderComponent, {
+				partials: this.settings.partials,
+				scripts,
+				sanitize: {
+					policy: view.sanitizePolicy ?? "standard",
+					allowedTags: view.allowedTags,
+					allowedAttributes: view.allowedAttributes
+				},
+				isCurrent
+			});
+			// A newer render took over the element and released this one's component
+			if (!isCurrent()) return;
+			this.sanitizeReports.set(file.path, { viewId: view.id, removed });
+		}
 		container.addClass(HIDE_MARKDOWN_CLASS);
+		customEl.scrollTop = scrollTop;
 	}
 
 	restoreDefaultView(view: MarkdownView) {
 		const container = view.contentEl;
 		container.removeClass(HIDE_MARKDOWN_CLASS);
 		const customEl = container.querySelector(`.${CUSTOM_VIEW_CLASS}`);
-		if (customEl) customEl.remove();
+		if (customEl instanceof HTMLElement) {
+			this.removeCustomView(customEl);
+		}
+	}
+
+	/**
+	 * Unloads the component of the last render of a custom view element, clearing the timers and
+	 * listeners its scripts registered and the markdown it rendered
+	 * @param customEl - The custom view element
+	 */
+	releaseRender(customEl: HTMLElement) {
+		const render = this.renderComponents.get(customEl);
+		if (!render) return;
+		this.renderComponents.delete(customEl);
+		render.owner.removeChild(render.component);
+	}
+
+	/**
+	 * Removes a custom view element, stopping renders of it that are still running
+	 * @param customEl - The custom view element
+	 */
+	removeCustomView(customEl: HTMLElement) {
+		this.renderIds.delete(customEl);
+		this.releaseRender(customEl);
+		customEl.remove();
 	}
 
 	async loadSettings() {
 		const loadedData = await this.loadData() as Partial<CustomViewsSettings> | null;
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+		// Copy so added partials don't end up in the shared defaults
+		this.settings.partials = [...this.settings.partials];
+		this.resolver.setViews(this.settings.views);
 	}
 
 	async saveSettings() {
+		// Recompile the rules so the new settings apply to the next match
+		this.resolver.setViews(this.settings.views);
 		await this.saveData(this.settings);
 	}
 
@@ -233,7 +446,7 @@ export default class CustomViewsPlugin extends Plugin {
 					// Process each node in the canvas
 					canvas.nodes.forEach((node) => {
 						if (node.file && node.file instanceof TFile && node.file.extension === "md") {
-							void this.processCanvasNode(node);
+							void this.processCanvasNode(node, view);
 						}
 					});
 				}
@@ -243,23 +456,16 @@ export default class CustomViewsPlugin extends Plugin {
 
 	/**
 	 * Process a single canvas node
+	 * @param node - The node
+	 * @param canvasView - The canvas view the node is in, which owns its render
 	 */
-	async processCanvasNode(node: CanvasNode) {
+	async processCanvasNode(node: CanvasNode, canvasView: Component) {
 		const file = node.file;
 		if (!(file instanceof TFile)) return;
 
-		const cache = this.app.metadataCache.getFileCache(file);
-		let matchedTemplate = "";
+		const matchedView = this.resolver.getMatchingView(file);
 
-		for (const viewConfig of this.settings.views) {
-			const isMatch = checkRules(this.app, viewConfig.rules, file, cache?.frontmatter);
-			if (isMatch) {
-				matchedTemplate = viewConfig.template;
-				break;
-			}
-		}
-
-		if (!matchedTemplate) {
+		if (!matchedView || !hasTemplate(matchedView)) {
 			this.restoreCanvasNode(node);
 			return;
 		}
@@ -272,7 +478,7 @@ export default class CustomViewsPlugin extends Plugin {
 		const previewContainer = nodeEl.querySelector(".markdown-preview-view") as HTMLElement;
 		if (!previewContainer) return;
 
-		await this.injectCustomView(previewContainer, file, matchedTemplate);
+		await this.injectCustomView(previewContainer, file, matchedView, canvasView);
 	}
 
 	/**
@@ -287,7 +493,9 @@ export default class CustomViewsPlugin extends Plugin {
 
 		previewContainer.removeClass(HIDE_MARKDOWN_CLASS);
 		const customEl = previewContainer.querySelector(`.${CUSTOM_VIEW_CLASS}`);
-		if (customEl) customEl.remove();
+		if (customEl instanceof HTMLElement) {
+			this.removeCustomView(customEl);
+		}
 	}
 
 	/**
@@ -1,32 +1,297 @@
-import { App, TFile, FrontMatterCache } from "obsidian";
-import { FilterGroup, Filter } from "./types";
+import { App, TFile, FrontMatterCache, getLinkpath, moment } from "obsidian";
+import { FilterGroup, Filter, FilterOperator, FilterConjunction, MatchMode } from "./types";
+import { resolveDateValue, toDay } from "./dates";
+import { getPropertyValue, isPlainObject } from "./paths";
+import { getFileField, getFileTags, getFileAliases, getBacklinkPaths, getTaskItems, isTaskDone, TaskItem } from "./fields";
+
+type FieldValue = string | number | boolean | string[] | null;
 
 /**
- * Evaluates the rules for a given filter group, file, and frontmatter
- * @param app - The Obsidian app instance
- * @param group - The filter group to evaluate
- * @param file - The file to evaluate the rules for
- * @param frontmatter - The frontmatter of the file
- * @returns True if all conditions in the group are met, false otherwise
+ * A view's rules compiled into a single predicate over a file
  */
-export function checkRules(app: App, group: FilterGroup, file: TFile, frontmatter?: FrontMatterCache): boolean {
-	if (!group || !group.conditions || group.conditions.length === 0) return true;
+export type RulePredicate = (context: MatchContext) => boolean;
+
+/**
+ * The file being evaluated, with the data derived from it (tags, links, backlinks, field values)
+ * computed lazily and at most once, no matter how many filters or views read it.
+ */
+export class MatchContext {
+	readonly app: App;
+	readonly file: TFile;
+	readonly frontmatter?: FrontMatterCache;
+	private fieldValues = new Map<string, FieldValue>();
+	private outgoingLinks: Set<string> | null = null;
+	private backlinkCount: number | null = null;
+	private tasks: TaskItem[] | null = null;
+
+	constructor(app: App, file: TFile, frontmatter?: FrontMatterCache) {
+		this.app = app;
+		this.file = file;
+		this.frontmatter = frontmatter;
+	}
+
+	/**
+	 * Gets the value of a field other than the "file" pseudo-field
+	 */
+	getFieldValue(field: string): FieldValue {
+		if (!this.fieldValues.has(field)) {
+			this.fieldValues.set(field, resolveFieldValue(this.app, field, this.file, this.frontmatter));
+		}
+		return this.fieldValues.get(field) ?? null;
+	}
+
+	/**
+	 * Gets the tags of the file from both the body and the frontmatter, without the # prefix
+	 */
+	getTagNames(): string[] {
+		return this.getFieldValue("file tags") as string[];
+	}
+
+	/**
+	 * Gets the paths of all files linked from the body or from frontmatter properties
+	 */
+	getOutgoingLinks(): Set<string> {
+		if (this.outgoingLinks) return this.outgoingLinks;
+
+		const { app, file, frontmatter } = this;
+		// Get all links from the current file body
+		const cache = app.metadataCache.getFileCache(file);
+		const links = cache?.links || [];
+		const linkPaths = links.map(link => {
+			const resolvedPath = app.metadataCache.getFirstLinkpathDest(link.link, file.path);
+			return resolvedPath?.path;
+		}).filter(Boolean) as string[];
+
+		// Also check frontmatter properties for links
+		if (frontmatter) {
+			const frontmatterRecord = frontmatter as Record<string, string | number | boolean | string[] | undefined>;
 
-	// Evaluate all conditions in this group
-	const results = group.conditions.map(condition => {
+			// Extract links from frontmatter values
+			const extractLinks = (value: string | number | boolean | string[] | undefined): string[] => {
+				if (value === undefined || value === null) return [];
+
+				// Handle arrays (like categories: ["[[Books]]", "songs"])
+				if (Array.isArray(value)) {
+					return value.flatMap(item => extractLinks(item));
+				}
+
+				// Convert to string and extract [[...]] patterns
+				const strValue = String(value);
+				const linkPattern = /\[\[([^\]]+)\]\]/g;
+				const matches: string[] = [];
+				let match;
+
+				while ((match = linkPattern.exec(strValue)) !== null) {
+					matches.push(match[1]);
+				}
+
+				return matches;
+			};
+
+			// Check all frontmatter properties for links
+			for (const key of Object.keys(frontmatterRecord)) {
+				const value = frontmatterRecord[key];
+				const extractedLinks = extractLinks(value);
+
+				// Resolve each extracted link
+				for (const linkText of extractedLinks) {
+					const resolvedPath = app.metadataCache.getFirstLinkpathDest(linkText, file.path);
+					if (resolvedPath?.path) {
+						linkPaths.push(resolvedPath.path);
+					}
+				}
+			}
+		}
+
+		this.outgoingLinks = new Set(linkPaths);
+		return this.outgoingLinks;
+	}
+
+	/**
+	 * Gets the number of other files linking to the file
+	 */
+	getBacklinkCount(): number {
+		if (this.backlinkCount === null) {
+			this.backlinkCount = getBacklinkPaths(this.app, this.file).length;
+		}
+		return this.backlinkCount;
+	}
+
+	/**
+	 * Gets the task list items of the file
+	 */
+	getTasks(): TaskItem[] {
+		if (!this.tasks) {
+			this.tasks = getTaskItems(this.app, this.file);
+		}
+		return this.tasks;
+	}
+}
+
+/**
+ * A filter with its value parsed once, when the rules are compiled
+ */
+interface PreparedFilter {
+	filter: Filter;
+	/** The value normalized for the filter's match mode */
+	text: string;
+	/** The comma-separated values, trimmed and normalized */
+	list: string[];
+	number: number | null;
+	/** The compiled pattern for regex operators; null when missing or invalid */
+	regex: RegExp | null;
+	/** The compiled globs of path operators; patterns starting with "!" are exclusions */
+	globs: { include: RegExp[], exclude: RegExp[] };
+	/** The parsed value of heading operators */
+	heading: { level: number | null, text: string } | null;
+	/** Resolves the value as a day; relative values are re-resolved when the date changes */
+	getDay: () => moment.Moment | null;
+}
+
+/**
+ * Parses a filter's value into the forms its operator needs
+ * @param filter - The filter to prepare
+ * @returns The filter with its parsed values
+ */
+function prepareFilter(filter: Filter): PreparedFilter {
+	const rawValue = filter.value || "";
+
+	let regex: RegExp | null = null;
+	if (filter.operator === "matches regex" || filter.operator === "does not match regex") {
+		try {
+			regex = applyMatchModeToRegex(parseRegexValue(rawValue), filter.matchMode);
+		} catch {
+			regex = null;
+		}
+	}
+
+	const globs: PreparedFilter["globs"] = { include: [], exclude: [] };
+	if (filter.operator === "path matches" || filter.operator === "path does not match") {
+		if (rawValue.trim()) globs.include.push(compileGlob(rawValue.trim(), filter.matchMode));
+	} else if (filter.operator === "path matches any of" || filter.operator === "path does not match any of") {
+		for (const pattern of rawValue.split(",").map(v => v.trim()).filter(v => v.length > 0)) {
+			if (pattern.startsWith("!")) {
+				globs.exclude.push(compileGlob(pattern.substring(1), filter.matchMode));
+			} else {
+				globs.include.push(compileGlob(pattern, filter.matchMode));
+			}
+		}
+	}
+
+	let heading: PreparedFilter["heading"] = null;
+	const headingFilter = rawValue.trim();
+	if ((filter.operator === "has heading" || filter.operator === "does not have heading") && headingFilter) {
+		// "## Summary" matches only level-2 headings, "Summary" matches any level
+		const levelMatch = headingFilter.match(/^(#{1,6})\s+(.*)$/);
+		heading = {
+			level: levelMatch ? levelMatch[1].length : null,
+			text: normalizeText(levelMatch ? levelMatch[2].trim() : headingFilter, filter.matchMode)
+		};
+	}
+
+	let dayKey = "";
+	let day: moment.Moment | null = null;
+	const getDay = () => {
+		const today = moment().format("YYYY-MM-DD");
+		if (dayKey !== today) {
+			day = resolveDateValue(rawValue);
+			dayKey = today;
+		}
+		return day;
+	};
+
+	return {
+		filter,
+		text: normalizeText(rawValue, filter.matchMode),
+		list: rawValue.split(",").map(v => normalizeText(v.trim(), filter.matchMode)).filter(v => v.length > 0),
+		number: toNumber(rawValue),
+		regex,
+		globs,
+		heading,
+		getDay
+	};
+}
+
+/**
+ * Compiles a filter group into a predicate. Filter values are parsed once here,
+ * and groups stop evaluating as soon as their result is known.
+ * @param group - The filter group to compile
+ * @returns A predicate that is true when the group's conditions are met
+ */
+export function compileRules(group: FilterGroup): RulePredicate {
+	if (!group || !group.conditions || group.conditions.length === 0) return () => true;
+
+	const predicates: RulePredicate[] = group.conditions.map(condition => {
 		if (condition.type === "group") {
-			return checkRules(app, condition, file, frontmatter);
-		} else {
-			return evaluateFilter(app, condition, file, frontmatter);
+			return compileRules(condition);
 		}
+		const prepared = prepareFilter(condition);
+		return (context: MatchContext) => evaluateFilter(context, prepared);
 	});
 
 	// Combine results based on AND (every) / OR (some) / NOR (none)
 	if (group.operator === "AND") {
-		return results.every(r => r === true);
+		return (context) => predicates.every(p => p(context));
 	} else if (group.operator === "OR") {
-		return results.some(r => r === true);
+		return (context) => predicates.some(p => p(context));
 	} else if (group.operator === "NOR") {
+		// NOR: None of the following are true (all must be false)
+		return (context) => !predicates.some(p => p(context));
+	}
+	return () => true;
+}
+
+/**
+ * Checks whether a value parsed from JSON is a valid filter or filter group, including all nested conditions
+ * @param value - The parsed value
+ * @returns True if the value can be compiled with {@link compileRules}
+ */
+export function isRuleCondition(value: unknown): value is Filter | FilterGroup {
+	if (typeof value !== "object" || value === null) return false;
+	const condition = value as { type?: unknown, conditions?: unknown, field?: unknown, operator?: unknown, value?: unknown };
+	if (condition.type === "group") {
+		return Array.isArray(condition.conditions) && condition.conditions.every(isRuleCondition);
+	}
+	return condition.type === "filter"
+		&& typeof condition.field === "string"
+		&& typeof condition.operator === "string"
+		&& (condition.value === undefined || typeof condition.value === "string");
+}
+
+const LINK_GRAPH_OPERATORS: FilterOperator[] = [
+	"links to", "does not link to",
+	"links to any note in folder", "does not link to any note in folder",
+	"is linked from", "is not linked from",
+	"has at least N backlinks", "has no backlinks",
+	"embeds", "does not embed"
+];
+
+/**
+ * Checks whether a filter group depends on other notes through the link graph,
+ * so its results can change when any note in the vault changes
+ * @param group - The filter group to check
+ * @returns True if any condition uses link resolution or backlinks
+ */
+export function usesLinkGraph(group: FilterGroup): boolean {
+	if (!group || !group.conditions) return false;
+	return group.conditions.some(condition => condition.type === "group"
+		? usesLinkGraph(condition)
+		: condition.field === "file" && LINK_GRAPH_OPERATORS.includes(condition.operator));
+}
+
+/**
+ * Combines the results of a group's conditions using its conjunction
+ * @param operator - The group's conjunction
+ * @param results - The result of each condition, in order
+ * @returns The result of the group
+ */
+function combineResults(operator: FilterConjunction, results: boolean[]): boolean {
+	// Combine results based on AND (every) / OR (some) / NOR (none)
+	if (operator === "AND") {
+		return results.every(r => r === true);
+	} else if (operator === "OR") {
+		return results.some(r => r === true);
+	} else if (operator === "NOR") {
 		// NOR: None of the following are true (all must be false)
 		return results.every(r => r === false);
 	}
@@ -34,14 +299,152 @@ export function checkRules(app: App, group: FilterGroup, file: TFile, frontmatte
 }
 
 /**
- * Evaluates a single filter for a given file and frontmatter
+ * The outcome of a single filter, with the value it was evaluated against
+ */
+export interface FilterExplanation {
+	type: "filter";
+	filter: Filter;
+	/** The value read from the file, formatted for display */
+	target: string;
+	/** The filter value after resolving relative dates, when it differs from what was typed */
+	resolvedValue?: string;
+	result: boolean;
+}
+
+/**
+ * The outcome of a filter group and of every condition inside it
+ */
+export interface GroupExplanation {
+	type: "group";
+	operator: FilterConjunction;
+	conditions: (FilterExplanation | GroupExplanation)[];
+	result: boolean;
+}
+
+/**
+ * Evaluates the rules like the predicate from compileRules, but keeps the full evaluation tree for display
  * @param app - The Obsidian app instance
- * @param filter - The filter to evaluate
- * @param file - The file to evaluate the filter for
+ * @param group - The filter group to evaluate
+ * @param file - The file to evaluate the rules for
  * @param frontmatter - The frontmatter of the file
+ * @returns The evaluation tree; its result always equals the compiled predicate for the same input
+ */
+export function explainRules(app: App, group: FilterGroup, file: TFile, frontmatter?: FrontMatterCache): GroupExplanation {
+	return explainGroup(new MatchContext(app, file, frontmatter), group);
+}
+
+/**
+ * Builds the evaluation tree of a group
+ * @param context - The file being evaluated
+ * @param group - The filter group to explain
+ * @returns The evaluation tree of the group
+ */
+function explainGroup(context: MatchContext, group: FilterGroup): GroupExplanation {
+	const conditions = (group?.conditions || []).map((condition): FilterExplanation | GroupExplanation => {
+		if (condition.type === "group") {
+			return explainGroup(context, condition);
+		}
+
+		const prepared = prepareFilter(condition);
+		const explanation: FilterExplanation = {
+			type: "filter",
+			filter: condition,
+			target: describeTarget(context, condition),
+			result: evaluateFilter(context, prepared)
+		};
+		if (isDateOperator(condition.operator)) {
+			const filterDay = prepared.getDay();
+			const resolved = filterDay ? filterDay.format("YYYY-MM-DD") : "not a date";
+			if (resolved !== (condition.value || "").trim()) explanation.resolvedValue = resolved;
+		}
+		return explanation;
+	});
+
+	return {
+		type: "group",
+		operator: group?.operator || "AND",
+		conditions,
+		result: conditions.length === 0 ? true : combineResults(group.operator, conditions.map(c => c.result))
+	};
+}
+
+/**
+ * Describes the data a filter looks at, for the explain view
+ * @param context - The file being evaluated
+ * @param filter - The filter being explained
+ * @returns A short human-readable description of the target value
+ */
+function describeTarget(context: MatchContext, filter: Filter): string {
+	const { app, file, frontmatter } = context;
+	if (filter.field !== "file") {
+		const value = context.getFieldValue(filter.field);
+		if ((filter.field === "file.ctime" || filter.field === "file.mtime") && typeof value === "number") {
+			return moment(value).format("YYYY-MM-DD HH:mm");
+		}
+		return formatValue(value);
+	}
+
+	const cache = app.metadataCache.getFileCache(file);
+	switch (filter.operator) {
+		case "links to":
+		case "does not link to":
+		case "links to any note in folder":
+		case "does not link to any note in folder":
+			return `links: ${formatValue(Object.keys(app.metadataCache.resolvedLinks[file.path] || {}))}`;
+		case "is linked from":
+		case "is not linked from":
+		case "has at least N backlinks":
+		case "has no backlinks":
+			return `backlinks: ${context.getBacklinkCount()}`;
+		case "in folder":
+		case "is not in folder":
+			return `folder: ${formatValue(file.parent?.path || "/")}`;
+		case "has tag":
+		case "does not have tag":
+			return `tags: ${formatValue(context.getTagNames())}`;
+		case "has property":
+		case "does not have property": {
+			const value = getPropertyValue(frontmatter, (filter.value || "").trim());
+			return value === undefined ? "property missing" : `value: ${formatValue(toFilterTarget(value))}`;
+		}
+		case "has heading":
+		case "does not have heading":
+			return `headings: ${formatValue((cache?.headings || []).map(h => `${"#".repeat(h.level)} ${h.heading}`))}`;
+		case "has unfinished tasks":
+		case "has no unfinished tasks": {
+			const tasks = context.getTasks();
+			return `tasks: ${tasks.length}, unfinished: ${tasks.filter(item => !isTaskDone(item)).length}`;
+		}
+		case "embeds":
+		case "does not embed":
+			return `embeds: ${formatValue((cache?.embeds || []).map(embed => embed.link))}`;
+		default:
+			return file.path;
+	}
+}
+
+/**
+ * Formats a target value for display
+ * @param value - The value to format
+ * @returns Strings quoted, lists in brackets, and "(empty)" for missing values
+ */
+function formatValue(value: string | number | boolean | string[] | null): string {
+	if (value === null || value === undefined || value === "") return "(empty)";
+	if (Array.isArray(value)) return `[${value.map(v => JSON.stringify(v)).join(", ")}]`;
+	if (typeof value === "string") return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * Evaluates a single filter for a given file and frontmatter
+ * @param context - The file being evaluated, with its lazily computed data
+ * @param prepared - The filter to evaluate, with its value already parsed
  * @returns True if the condition is met, false otherwise
  */
-function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: FrontMatterCache): boolean {
+function evaluateFilter(context: MatchContext, prepared: PreparedFilter): boolean {
+	const { app, file, frontmatter } = context;
+	const filter = prepared.filter;
+
 	// Handle special "file" field operators
 	if (filter.field === "file") {
 		const filterValue = filter.value || "";
@@ -55,59 +458,42 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 					return filter.operator === "does not link to";
 				}
 
-				// Get all links from the current file body
-				const cache = app.metadataCache.getFileCache(file);
-				const links = cache?.links || [];
-				const linkPaths = links.map(link => {
-					const resolvedPath = app.metadataCache.getFirstLinkpathDest(link.link, file.path);
-					return resolvedPath?.path;
-				}).filter(Boolean) as string[];
-
-				// Also check frontmatter properties for links
-				if (frontmatter) {
-					const frontmatterRecord = frontmatter as Record<string, string | number | boolean | string[] | undefined>;
-
-					// Extract links from frontmatter values
-					const extractLinks = (value: string | number | boolean | string[] | undefined): string[] => {
-						if (value === undefined || value === null) return [];
-
-						// Handle arrays (like categories: ["[[Books]]", "songs"])
-						if (Array.isArray(value)) {
-							return value.flatMap(item => extractLinks(item));
-						}
-
-						// Convert to string and extract [[...]] patterns
-						const strValue = String(value);
-						const linkPattern = /\[\[([^\]]+)\]\]/g;
-						const matches: string[] = [];
-						let match;
-
-						while ((match = linkPattern.exec(strValue)) !== null) {
-							matches.push(match[1]);
-						}
-
-						return matches;
-					};
-
-					// Check all frontmatter properties for links
-					for (const key of Object.keys(frontmatterRecord)) {
-						const value = frontmatterRecord[key];
-						const extractedLinks = extractLinks(value);
-
-						// Resolve each extracted link
-						for (const linkText of extractedLinks) {
-							const resolvedPath = app.metadataCache.getFirstLinkpathDest(linkText, file.path);
-							if (resolvedPath?.path) {
-								linkPaths.push(resolvedPath.path);
-							}
-						}
-					}
+				const hasLink = context.getOutgoingLinks().has(targetFile.path);
+				return filter.operator === "links to" ? hasLink : !hasLink;
+			}
+
+			case "links to any note in folder":
+			case "does not link to any note in folder": {
+				const targetFolder = filterValue.trim();
+				if (!targetFolder) {
+					return filter.operator === "does not link to any note in folder";
 				}
 
-				const hasLink = linkPaths.includes(targetFile.path);
-				return filter.operator === "links to" ? hasLink : !hasLink;
+				// Outgoing links as resolved by Obsidian (body and frontmatter)
+				const outgoing = Object.keys(app.metadataCache.resolvedLinks[file.path] || {});
+				const hasLink = outgoing.some(path => isInFolder(folderOf(path), targetFolder));
+				return filter.operator === "links to any note in folder" ? hasLink : !hasLink;
+			}
+
+			case "is linked from":
+			case "is not linked from": {
+				const sourceFile = app.metadataCache.getFirstLinkpathDest(filterValue, file.path);
+				if (!sourceFile) {
+					return filter.operator === "is not linked from";
+				}
+
+				const isLinked = (app.metadataCache.resolvedLinks[sourceFile.path]?.[file.path] || 0) > 0;
+				return filter.operator === "is linked from" ? isLinked : !isLinked;
+			}
+
+			case "has at least N backlinks": {
+				if (prepared.number === null) return false;
+				return context.getBacklinkCount() >= prepared.number;
 			}
 
+			case "has no backlinks":
+				return context.getBacklinkCount() === 0;
+
 			case "in folder":
 			case "is not in folder": {
 				const targetFolder = filterValue.trim();
@@ -115,58 +501,37 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 					return filter.operator === "is not in folder";
 				}
 
-				// Normalize folder paths (remove leading/trailing slashes)
-				const normalizedTarget = targetFolder.replace(/^\/+|\/+$/g, "");
-				const fileFolder = file.parent?.path || "";
-				const normalizedFileFolder = fileFolder.replace(/^\/+|\/+$/g, "");
+				const inFolder = isInFolder(file.parent?.path || "", targetFolder);
+				return filter.operator === "in folder" ? inFolder : !inFolder;
+			}
 
-				// Check if file is in the target folder or a subfolder
-				const isInFolder = normalizedFileFolder === normalizedTarget ||
-					normalizedFileFolder.startsWith(normalizedTarget + "/");
-				return filter.operator === "in folder" ? isInFolder : !isInFolder;
+			case "path matches":
+			case "path does not match":
+			case "path matches any of":
+			case "path does not match any of": {
+				const { include, exclude } = prepared.globs;
+				if (include.length === 0 && exclude.length === 0) {
+					return filter.operator === "path does not match" || filter.operator === "path does not match any of";
+				}
+
+				// A path matches when it matches an include glob (or there are only exclusions) and no exclusion
+				const path = filter.matchMode === "ignore case and diacritics" ? stripDiacritics(file.path) : file.path;
+				const included = include.length === 0 || include.some(glob => glob.test(path));
+				const excluded = exclude.some(glob => glob.test(path));
+				const matches = included && !excluded;
+				return filter.operator === "path matches" || filter.operator === "path matches any of" ? matches : !matches;
 			}
 
 			case "has tag":
 			case "does not have tag": {
-				const trimmedValue = filterValue.trim();
-				const filterTags = trimmedValue.split(",").map(t => t.trim()).filter(t => t.length > 0);
+				const filterTags = prepared.list;
 				if (filterTags.length === 0) {
 					return filter.operator === "does not have tag";
 				}
 
-				const cache = app.metadataCache.getFileCache(file);
-
-				// Get tags from both cache.tags (body tags) and frontmatter.tags (frontmatter tags)
-				const bodyTags = cache?.tags || [];
-				const frontmatterTags = frontmatter?.tags as string | string[] | undefined;
-
-				// Combine tags from both sources
-				// For frontmatter tags, we'll just extract the tag strings and compare them separately
-				const fileTags = [...bodyTags];
-				const frontmatterTagStrings: string[] = [];
-				if (frontmatterTags) {
-					// If frontmatter has tags as an array, extract tag strings
-					if (Array.isArray(frontmatterTags)) {
-						frontmatterTagStrings.push(...frontmatterTags.map(tag =>
-							typeof tag === 'string' ? (tag.startsWith('#') ? tag : `#${tag}`) : String(tag)
-						));
-					} else if (typeof frontmatterTags === 'string') {
-						// Single tag as string
-						frontmatterTagStrings.push(frontmatterTags.startsWith('#') ? frontmatterTags : `#${frontmatterTags}`);
-					}
-				}
-
-				// Normalize file tags: remove # prefix (preserve case)
-				// Include both body tags and frontmatter tags
-				const fileTagNames = [
-					...fileTags.map(tag => {
-						// tag.tag is the full tag string like "#movies" or "#movies/action"
-						return tag.tag.replace(/^#+/, "");
-					}),
-					...frontmatterTagStrings.map(tag => {
-						return tag.replace(/^#+/, "");
-					})
-				];
+				// Tags from both the note body and the frontmatter, without the # prefix
+				// (case is kept unless the match mode ignores it)
+				const fileTagNames = context.getTagNames().map(tag => normalizeText(tag, filter.matchMode));
 
 				// Check if any of the filter tags match any file tag
 				// Match exact tags or parent tags (e.g., "movies" matches "#movies" and "#movies/action")
@@ -192,142 +557,97 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 					return filter.operator === "does not have property";
 				}
 
-				// Check if property exists in frontmatter
-				const hasProperty = frontmatter && propertyName in frontmatter;
-				return filter.operator === "has property" ? !!hasProperty : !hasProperty;
+				// Check if property exists in frontmatter (nested paths allowed)
+				const hasProperty = getPropertyValue(frontmatter, propertyName) !== undefined;
+				return filter.operator === "has property" ? hasProperty : !hasProperty;
 			}
 
-			default:
-				return false;
-		}
-	}
-
-	let targetValue: string | number | boolean | string[] | null = null;
+			case "has heading":
+			case "does not have heading": {
+				const heading = prepared.heading;
+				if (!heading) {
+					return filter.operator === "does not have heading";
+				}
 
-	if (filter.field.startsWith("file.")) {
-		if (filter.field === "file.name") targetValue = file.name;
-		else if (filter.field === "file.basename") targetValue = file.basename;
-		else if (filter.field === "file.path") targetValue = file.path;
-		else if (filter.field === "file.folder") targetValue = file.parent?.path || "";
-		else if (filter.field === "file.size") targetValue = file.stat.size;
-		else if (filter.field === "file.ctime") targetValue = file.stat.ctime;
-		else if (filter.field === "file.mtime") targetValue = file.stat.mtime;
-		else if (filter.field === "file.extension") targetValue = file.extension;
-	} else if (filter.field === "file tags") {
-		// Special handling for file tags - get from Obsidian's metadata cache
-		const cache = app.metadataCache.getFileCache(file);
-		const bodyTags = cache?.tags || [];
-		const frontmatterTags = frontmatter?.tags as string | string[] | undefined;
-
-		// Get tag strings from body tags
-		const bodyTagStrings = bodyTags.map(tag => tag.tag.replace(/^#+/, ""));
-
-		// Get tag strings from frontmatter tags
-		const frontmatterTagStrings: string[] = [];
-		if (frontmatterTags) {
-			if (Array.isArray(frontmatterTags)) {
-				frontmatterTagStrings.push(...frontmatterTags.map(tag =>
-					typeof tag === 'string' ? tag.replace(/^#+/, "") : String(tag).replace(/^#+/, "")
-				));
-			} else if (typeof frontmatterTags === 'string') {
-				frontmatterTagStrings.push(frontmatterTags.replace(/^#+/, ""));
+				const headings = app.metadataCache.getFileCache(file)?.headings || [];
+				const hasHeading = headings.some(h =>
+					normalizeText(h.heading.trim(), filter.matchMode) === heading.text && (heading.level === null || h.level === heading.level)
+				);
+				return filter.operator === "has heading" ? hasHeading : !hasHeading;
 			}
-		}
 
-		// Combine tags from both sources
-		targetValue = [...bodyTagStrings, ...frontmatterTagStrings];
-	} else if (filter.field === "aliases") {
-		// Special handling for aliases - get from both frontmatter and metadata cache
-		const cache = app.metadataCache.getFileCache(file);
-		const frontmatterAliases = frontmatter?.aliases as string | string[] | undefined;
-		const cacheAliases = cache?.frontmatter?.aliases as string | string[] | undefined;
+			case "has unfinished tasks":
+			case "has no unfinished tasks": {
+				const tasks = context.getTasks();
+				const hasUnfinished = tasks.some(item => !isTaskDone(item));
+				return filter.operator === "has unfinished tasks" ? hasUnfinished : !hasUnfinished;
+			}
 
-		const aliasList: string[] = [];
+			case "embeds":
+			case "does not embed": {
+				const embedFilter = filterValue.trim();
+				if (!embedFilter) {
+					return filter.operator === "does not embed";
+				}
 
-		// Get aliases from frontmatter
-		if (frontmatterAliases) {
-			if (Array.isArray(frontmatterAliases)) {
-				aliasList.push(...frontmatterAliases.map(alias => String(alias)));
-			} else if (typeof frontmatterAliases === 'string') {
-				aliasList.push(frontmatterAliases);
+				const embedsMatch = embedsMatching(app, file, embedFilter);
+				return filter.operator === "embeds" ? embedsMatch : !embedsMatch;
 			}
-		}
 
-		// Get aliases from cache (if different from frontmatter)
-		if (cacheAliases && cacheAliases !== frontmatterAliases) {
-			if (Array.isArray(cacheAliases)) {
-				aliasList.push(...cacheAliases.map(alias => String(alias)));
-			} else if (typeof cacheAliases === 'string') {
-				aliasList.push(cacheAliases);
-			}
+			default:
+				return false;
 		}
-
-		targetValue = aliasList;
-	} else if (frontmatter) {
-		// Type-safe access to frontmatter field
-		const frontmatterRecord = frontmatter as Record<string, string | number | boolean | string[] | undefined>;
-		const fieldValue = frontmatterRecord[filter.field];
-		targetValue = fieldValue !== undefined ? fieldValue : null;
 	}
 
+	let targetValue = context.getFieldValue(filter.field);
 	if (targetValue === undefined || targetValue === null) targetValue = "";
 
-	// Special handling for date operators on file.ctime and file.mtime
-	const dateOperators = ["on", "not on", "before", "on or before", "after", "on or after", "is empty", "is not empty"];
-	if ((filter.field === "file.ctime" || filter.field === "file.mtime") &&
-		dateOperators.includes(filter.operator) &&
-		typeof targetValue === "number") {
+	// Date operators compare calendar days. They apply to the file.ctime/file.mtime timestamps
+	// and to any frontmatter date or datetime value; the filter value may be relative ("today", "-7 days")
+	if (isDateOperator(filter.operator)) {
+		const filterDay = prepared.getDay();
+		if (!filterDay) return false;
 
-		// Handle empty checks
-		if (filter.operator === "is empty") {
-			return !targetValue || targetValue === 0;
-		}
-		if (filter.operator === "is not empty") {
-			return !!targetValue && targetValue !== 0;
+		if (Array.isArray(targetValue)) {
+			if (filter.operator === "not on") {
+				return !targetValue.some(v => compareDays(toDay(v), "on", filterDay));
+			}
+			return targetValue.some(v => compareDays(toDay(v), filter.operator, filterDay));
 		}
 
-		// Filter value is a date string (YYYY-MM-DD), but may have time component
-		// Truncate to just the date part if it's a datetime string
-		const filterDateStr = (filter.value || "").toString().split('T')[0];
+		return compareDays(toDay(targetValue), filter.operator, filterDay);
+	}
 
-		if (!filterDateStr || filterDateStr.length === 0) {
-			// Empty filter value - can't compare
-			return false;
-		}
+	// Numeric comparison for numbers, numeric strings and file.size
+	if (isNumericOperator(filter.operator)) {
+		const filterNumber = prepared.number;
+		if (filterNumber === null) return false;
 
-		// Convert timestamp to date string (YYYY-MM-DD)
-		const targetDate = new Date(targetValue);
-		const targetDateStr = targetDate.toISOString().split('T')[0];
+		if (Array.isArray(targetValue)) {
+			// For lists, "≠" means no element equals the value; the others need any element to satisfy it
+			if (filter.operator === "≠") {
+				return !targetValue.some(v => compareNumbers(toNumber(v), "=", filterNumber));
+			}
+			return targetValue.some(v => compareNumbers(toNumber(v), filter.operator, filterNumber));
+		}
 
-		// Compare dates
-		const targetDateObj = new Date(targetDateStr);
-		const filterDateObj = new Date(filterDateStr);
+		return compareNumbers(toNumber(targetValue), filter.operator, filterNumber);
+	}
 
-		// Normalize to midnight for accurate date comparison
-		targetDateObj.setHours(0, 0, 0, 0);
-		filterDateObj.setHours(0, 0, 0, 0);
+	// Regular expressions test scalars directly and lists element by element
+	if (filter.operator === "matches regex" || filter.operator === "does not match regex") {
+		const regex = prepared.regex;
+		if (!regex) return false;
 
-		switch (filter.operator) {
-			case "on":
-				return targetDateObj.getTime() === filterDateObj.getTime();
-			case "not on":
-				return targetDateObj.getTime() !== filterDateObj.getTime();
-			case "before":
-				return targetDateObj.getTime() < filterDateObj.getTime();
-			case "on or before":
-				return targetDateObj.getTime() <= filterDateObj.getTime();
-			case "after":
-				return targetDateObj.getTime() > filterDateObj.getTime();
-			case "on or after":
-				return targetDateObj.getTime() >= filterDateObj.getTime();
-			default:
-				return false;
-		}
+		const values = Array.isArray(targetValue) ? targetValue : [targetValue];
+		const ignoreDiacritics = filter.matchMode === "ignore case and diacritics";
+		const match = values.some(v => testRegex(regex, ignoreDiacritics ? stripDiacritics(String(v)) : String(v)));
+		return filter.operator === "matches regex" ? match : !match;
 	}
 
-	// Convert to string preserving case (case-sensitive matching)
-	const toString = (val: string | number | boolean | string[]) => String(val);
-	const filterValue = toString(filter.value || "");
+	// Convert to string, preserving case unless the filter's match mode says otherwise
+	const toString = (val: string | number | boolean | string[]) => normalizeText(String(val), filter.matchMode);
+	const filterValue = prepared.text;
 
 	if (Array.isArray(targetValue)) {
 		const targetArray = targetValue;
@@ -348,8 +668,8 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 			}
 			case "contains any of":
 			case "does not contain any of": {
-				// Parse comma-separated filter values
-				const filterValues = (filter.value || "").split(",").map(v => toString(v.trim())).filter(v => v.length > 0);
+				// Comma-separated filter values, split when the rules were compiled
+				const filterValues = prepared.list;
 				if (filterValues.length === 0) return filter.operator === "does not contain any of";
 				// Check if any filter value matches any target value
 				const match = filterValues.some(filterVal =>
@@ -359,8 +679,8 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 			}
 			case "contains all of":
 			case "does not contain all of": {
-				// Parse comma-separated filter values
-				const filterValues = (filter.value || "").split(",").map(v => toString(v.trim())).filter(v => v.length > 0);
+				// Comma-separated filter values, split when the rules were compiled
+				const filterValues = prepared.list;
 				if (filterValues.length === 0) return filter.operator === "does not contain all of";
 				// Check if all filter values are found in the target array
 				const match = filterValues.every(filterVal =>
@@ -393,8 +713,8 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 			}
 			case "contains any of":
 			case "does not contain any of": {
-				// Parse comma-separated filter values
-				const filterValues = (filter.value || "").split(",").map(v => toString(v.trim())).filter(v => v.length > 0);
+				// Comma-separated filter values, split when the rules were compiled
+				const filterValues = prepared.list;
 				if (filterValues.length === 0) return filter.operator === "does not contain any of";
 				// Check if any filter value is contained in the target string
 				const match = filterValues.some(filterVal => toString(targetScalar).includes(filterVal));
@@ -402,8 +722,8 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 			}
 			case "contains all of":
 			case "does not contain all of": {
-				// Parse comma-separated filter values
-				const filterValues = (filter.value || "").split(",").map(v => toString(v.trim())).filter(v => v.length > 0);
+				// Comma-separated filter values, split when the rules were compiled
+				const filterValues = prepared.list;
 				if (filterValues.length === 0) return filter.operator === "does not contain all of";
 				// Check if all filter values are contained in the target string
 				const match = filterValues.every(filterVal => toString(targetScalar).includes(filterVal));
@@ -418,3 +738,371 @@ function evaluateFilter(app: App, filter: Filter, file: TFile, frontmatter?: Fro
 		}
 	}
 }
+
+/**
+ * Resolves the value a filter compares against for a field other than the "file" pseudo-field
+ * @param app - The Obsidian app instance
+ * @param field - The field: a file.* property, "file tags", "aliases" or a frontmatter path
+ * @param file - The file to read the value from
+ * @param frontmatter - The frontmatter of the file
+ * @returns The value, or null if the file has none
+ */
+function resolveFieldValue(app: App, field: string, file: TFile, frontmatter?: FrontMatterCache): string | number | boolean | string[] | null {
+	let targetValue: string | number | boolean | string[] | null = null;
+
+	if (field.startsWith("file.")) {
+		if (field === "file.tasks") targetValue = getTaskItems(app, file).length;
+		else if (field === "file.completion") targetValue = getTaskCompletion(app, file);
+		else if (field === "file.sections") targetValue = getSectionCount(app, file);
+		else if (FILE_RULE_FIELDS.includes(field.substring(5))) {
+			targetValue = getFileField(app, file, field.substring(5)) as string | number;
+		}
+	} else if (field === "file tags") {
+		// Tags from both the body and the frontmatter
+		targetValue = getFileTags(app, file, frontmatter);
+	} else if (field === "aliases") {
+		targetValue = getFileAliases(app, file, frontmatter);
+	} else if (frontmatter) {
+		// Frontmatter fields may be nested paths such as "book.author" or "ratings[0].score"
+		const fieldValue = getPropertyValue(frontmatter, field);
+		targetValue = fieldValue !== undefined ? toFilterTarget(fieldValue) : null;
+	}
+
+	return targetValue;
+}
+
+// File fields that rules can compare; file.tasks in rules is the number of tasks rather than the list
+const FILE_RULE_FIELDS = ["name", "basename", "path", "folder", "size", "ctime", "mtime", "extension"];
+
+/**
+ * Converts a frontmatter value into a value the operators can compare.
+ * Nested mappings are compared as their JSON text.
+ * @param value - The frontmatter value
+ * @returns A scalar or a list of scalars
+ */
+function toFilterTarget(value: unknown): string | number | boolean | string[] | null {
+	if (value === null || value === undefined) return null;
+	if (Array.isArray(value)) {
+		return value.map(item => isPlainObject(item) ? JSON.stringify(item) : String(item));
+	}
+	if (isPlainObject(value)) return JSON.stringify(value);
+	if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+	return String(value);
+}
+
+/**
+ * Checks whether a folder is the target folder or one of its subfolders
+ * @param folderPath - The folder to check
+ * @param targetFolder - The folder to look for
+ * @returns True if folderPath is inside targetFolder
+ */
+function isInFolder(folderPath: string, targetFolder: string): boolean {
+	// Normalize folder paths (remove leading/trailing slashes)
+	const normalizedTarget = targetFolder.replace(/^\/+|\/+$/g, "");
+	const normalizedFolder = folderPath.replace(/^\/+|\/+$/g, "");
+
+	return normalizedFolder === normalizedTarget ||
+		normalizedFolder.startsWith(normalizedTarget + "/");
+}
+
+/**
+ * Gets the folder part of a vault path
+ * @param path - The file path
+ * @returns The parent folder path, or an empty string for the vault root
+ */
+function folderOf(path: string): string {
+	const lastSlash = path.lastIndexOf("/");
+	return lastSlash === -1 ? "" : path.substring(0, lastSlash);
+}
+
+/**
+ * Gets the percentage of completed tasks in a file
+ * @param app - The Obsidian app instance
+ * @param file - The file to read tasks from
+ * @returns A percentage from 0 to 100, or null if the file has no tasks
+ */
+function getTaskCompletion(app: App, file: TFile): number | null {
+	const tasks = getTaskItems(app, file);
+	if (tasks.length === 0) return null;
+
+	const done = tasks.filter(isTaskDone).length;
+	return Math.round((done / tasks.length) * 100);
+}
+
+/**
+ * Counts the top-level sections (paragraphs, headings, lists, code blocks...) of a file body
+ * @param app - The Obsidian app instance
+ * @param file - The file to count sections in
+ * @returns The number of sections, not counting the frontmatter
+ */
+function getSectionCount(app: App, file: TFile): number {
+	const sections = app.metadataCache.getFileCache(file)?.sections || [];
+	return sections.filter(section => section.type !== "yaml").length;
+}
+
+const EMBED_KINDS: Record<string, string[]> = {
+	image: ["png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "avif"],
+	audio: ["mp3", "wav", "m4a", "ogg", "3gp", "flac"],
+	video: ["mp4", "webm", "ogv", "mov", "mkv"],
+	pdf: ["pdf"],
+	note: ["md"]
+};
+
+/**
+ * Checks whether a file embeds a given kind of file or a specific file
+ * @param app - The Obsidian app instance
+ * @param file - The file whose embeds are checked
+ * @param embedFilter - A kind (image, audio, video, pdf, note) or a link to a specific file
+ * @returns True if any embed matches
+ */
+function embedsMatching(app: App, file: TFile, embedFilter: string): boolean {
+	const embeds = app.metadataCache.getFileCache(file)?.embeds || [];
+	const kindExtensions = EMBED_KINDS[embedFilter.toLowerCase()];
+	const targetFile = kindExtensions ? null : app.metadataCache.getFirstLinkpathDest(getLinkpath(embedFilter), file.path);
+
+	return embeds.some(embed => {
+		const linkpath = getLinkpath(embed.link);
+		const resolved = app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+
+		if (kindExtensions) {
+			// Unresolved embeds still count when the link text carries a known extension
+			const extension = resolved ? resolved.extension : (linkpath.match(/\.([^./]+)$/)?.[1] || "md");
+			return kindExtensions.includes(extension.toLowerCase());
+		}
+
+		return !!targetFile && resolved?.path === targetFile.path;
+	});
+}
+
+/**
+ * Removes diacritics (accents) from a string, e.g. "Café" becomes "Cafe"
+ * @param value - The string to strip
+ * @returns The string without combining marks
+ */
+function stripDiacritics(value: string): string {
+	return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Normalizes text for comparison according to a filter's match mode
+ * @param value - The text to normalize
+ * @param mode - The match mode (exact when undefined)
+ * @returns The text as it should be compared
+ */
+function normalizeText(value: string, mode?: MatchMode): string {
+	if (mode === "ignore case") return value.toLowerCase();
+	if (mode === "ignore case and diacritics") return stripDiacritics(value).toLowerCase();
+	return value;
+}
+
+/**
+ * Adapts a regex to a filter's match mode: case-insensitive modes add the "i" flag,
+ * and the diacritics mode strips accents from the pattern (targets are stripped too)
+ * @param regex - The parsed regex
+ * @param mode - The match mode (exact when undefined)
+ * @returns The regex to test with
+ */
+function applyMatchModeToRegex(regex: RegExp, mode?: MatchMode): RegExp {
+	if (!mode || mode === "exact") return regex;
+
+	const flags = regex.flags.includes("i") ? regex.flags : regex.flags + "i";
+	const source = mode === "ignore case and diacritics" ? stripDiacritics(regex.source) : regex.source;
+	return new RegExp(source, flags);
+}
+
+/**
+ * Converts a glob over vault paths into an anchored regex.
+ * `*` matches within one folder, `**` across folders, `?` one character, `{a,b}` alternatives
+ * and `[abc]` a character class. A trailing slash matches everything inside the folder.
+ * @param glob - The glob, e.g. "Projects/**" or "Daily/*.md"
+ * @param mode - The match mode (exact when undefined)
+ * @returns The regex matching the paths the glob describes
+ * @throws SyntaxError if a character class is invalid, e.g. "[z-a]"
+ */
+export function globToRegExp(glob: string, mode?: MatchMode): RegExp {
+	let pattern = glob.trim().replace(/^\/+/, "");
+	if (pattern.endsWith("/")) pattern += "**";
+	if (mode === "ignore case and diacritics") pattern = stripDiacritics(pattern);
+
+	let source = "";
+	let braceDepth = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" may also match no folder at all, so "a/**/b" matches "a/b"
+				if (pattern[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			braceDepth++;
+			source += "(?:";
+		} else if (char === "}" && braceDepth > 0) {
+			braceDepth--;
+			source += ")";
+		} else if (char === "," && braceDepth > 0) {
+			source += "|";
+		} else if (char === "[") {
+			const end = pattern.indexOf("]", i + 1);
+			if (end === -1) {
+				source += "\\[";
+			} else {
+				source += "[" + pattern.substring(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\") + "]";
+				i = end;
+			}
+		} else {
+			source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	const flags = mode && mode !== "exact" ? "i" : "";
+	return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Compiles a glob of a filter, treating an invalid glob (e.g. one with the range "[z-a]") as matching no path
+ * @param glob - The glob
+ * @param mode - The match mode (exact when undefined)
+ * @returns The regex matching the paths the glob describes, or one that matches nothing
+ */
+function compileGlob(glob: string, mode?: MatchMode): RegExp {
+	try {
+		return globToRegExp(glob, mode);
+	} catch {
+		return /(?!)/;
+	}
+}
+
+/**
+ * Parses a regex filter value. Accepts a bare pattern or a /pattern/flags literal.
+ * @param value - The filter value
+ * @returns The compiled regular expression
+ * @throws SyntaxError if the pattern is empty or invalid
+ */
+export function parseRegexValue(value: string): RegExp {
+	const trimmed = value.trim();
+	if (!trimmed) throw new SyntaxError("Pattern is empty");
+
+	const literal = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+	if (literal) {
+		return new RegExp(literal[1], literal[2]);
+	}
+	return new RegExp(trimmed);
+}
+
+/**
+ * Tests a string against a regex, ignoring the lastIndex state of global or sticky patterns
+ * @param regex - The regular expression
+ * @param value - The string to test
+ * @returns True if the pattern matches
+ */
+function testRegex(regex: RegExp, value: string): boolean {
+	regex.lastIndex = 0;
+	return regex.test(value);
+}
+
+const DATE_OPERATORS: FilterOperator[] = ["on", "not on", "before", "on or before", "after", "on or after"];
+
+/**
+ * Checks whether an operator is one of the date comparison operators
+ * @param operator - The operator to check
+ * @returns True if the operator compares dates
+ */
+function isDateOperator(operator: FilterOperator): boolean {
+	return DATE_OPERATORS.includes(operator);
+}
+
+/**
+ * Compares two calendar days using a date comparison operator
+ * @param target - The day from the file (null if the value is not a date)
+ * @param operator - The date comparison operator
+ * @param filterDay - The day from the filter
+ * @returns True if the comparison holds; values that are not dates never match
+ */
+function compareDays(target: moment.Moment | null, operator: FilterOperator, filterDay: moment.Moment): boolean {
+	if (!target) return false;
+
+	const targetTime = target.valueOf();
+	const filterTime = filterDay.valueOf();
+
+	switch (operator) {
+		case "on":
+			return targetTime === filterTime;
+		case "not on":
+			return targetTime !== filterTime;
+		case "before":
+			return targetTime < filterTime;
+		case "on or before":
+			return targetTime <= filterTime;
+		case "after":
+			return targetTime > filterTime;
+		case "on or after":
+			return targetTime >= filterTime;
+		default:
+			return false;
+	}
+}
+
+const NUMERIC_OPERATORS: FilterOperator[] = ["=", "≠", "<", "≤", ">", "≥"];
+
+/**
+ * Checks whether an operator is one of the numeric comparison operators
+ * @param operator - The operator to check
+ * @returns True if the operator compares numbers
+ */
+function isNumericOperator(operator: FilterOperator): boolean {
+	return NUMERIC_OPERATORS.includes(operator);
+}
+
+/**
+ * Converts a value to a number if it is a number or a numeric string
+ * @param value - The value to convert
+ * @returns The number, or null if the value is not numeric
+ */
+export function toNumber(value: unknown): number | null {
+	if (typeof value === "number") return isFinite(value) ? value : null;
+	if (typeof value === "string") {
+		const trimmed = value.trim();
+		if (!trimmed) return null;
+		const parsed = Number(trimmed);
+		return isFinite(parsed) ? parsed : null;
+	}
+	return null;
+}
+
+/**
+ * Compares two numbers using a numeric comparison operator
+ * @param target - The value from the file (null if it is not numeric)
+ * @param operator - The numeric comparison operator
+ * @param filterNumber - The value from the filter
+ * @returns True if the comparison holds; non-numeric targets never match
+ */
+function compareNumbers(target: number | null, operator: FilterOperator, filterNumber: number): boolean {
+	if (target === null) return false;
+
+	switch (operator) {
+		case "=":
+			return target === filterNumber;
+		case "≠":
+			return target !== filterNumber;
+		case "<":
+			return target < filterNumber;
+		case "≤":
+			return target <= filterNumber;
+		case ">":
+			return target > filterNumber;
+		case "≥":
+			return target >= filterNumber;
+		default:
+			return false;
+	}
+}
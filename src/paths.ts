@@ -0,0 +1,124 @@
+/**
+ * A single step in a property path: an object key or a list index.
+ */
+export type PathSegment = string | number;
+
+/**
+ * Splits a property path such as `book.author` or `ratings[0].score` into its segments.
+ * @param path - The property path
+ * @returns The keys and indexes to walk, in order
+ */
+export function parsePropertyPath(path: string): PathSegment[] {
+	const segments: PathSegment[] = [];
+	const segmentRegex = /([^.[\]]+)|\[(\d+)\]/g;
+	let match;
+
+	while ((match = segmentRegex.exec(path)) !== null) {
+		if (match[2] !== undefined) {
+			segments.push(parseInt(match[2]));
+		} else {
+			segments.push(match[1].trim());
+		}
+	}
+
+	return segments;
+}
+
+/**
+ * Walks a list of path segments from a starting value.
+ * @param source - The value to start from
+ * @param segments - The keys and indexes to walk
+ * @returns The value at the end of the path, or undefined if any step is missing
+ */
+export function walkPropertyPath(source: unknown, segments: PathSegment[]): unknown {
+	let current = source;
+
+	for (const segment of segments) {
+		if (current === null || current === undefined) return undefined;
+
+		if (typeof segment === "number") {
+			if (!Array.isArray(current)) return undefined;
+			current = current[segment];
+		} else if (typeof current === "object" && !Array.isArray(current)) {
+			current = (current as Record<string, unknown>)[segment];
+		} else {
+			return undefined;
+		}
+	}
+
+	return current;
+}
+
+/**
+ * Reads a property by path from frontmatter (or any object).
+ * A key that literally contains dots (e.g. `book.author: ...`) takes precedence over the nested path.
+ * @param source - The object to read from
+ * @param path - The property path, e.g. `book.author` or `ratings[0].score`
+ * @returns The value, or undefined if it doesn't exist
+ */
+export function getPropertyValue(source: unknown, path: string): unknown {
+	if (source === null || source === undefined || typeof source !== "object") return undefined;
+
+	const record = source as Record<string, unknown>;
+	if (Object.prototype.hasOwnProperty.call(record, path)) {
+		return record[path];
+	}
+
+	return walkPropertyPath(source, parsePropertyPath(path));
+}
+
+// Keys that would write to an object's prototype instead of the object itself
+const UNSAFE_KEYS = ["__proto__", "prototype", "constructor"];
+
+/**
+ * Writes a property by path into frontmatter, creating nested objects as needed.
+ * A key that literally contains dots is written as is, matching {@link getPropertyValue}.
+ * @param target - The object to write to
+ * @param path - The property path, e.g. `book.rating`
+ * @param value - The value to write
+ * @throws Error if the path names a prototype key or a named key of a list
+ */
+export function setPropertyValue(target: Record<string, unknown>, path: string, value: unknown): void {
+	const segments = parsePropertyPath(path);
+	if (UNSAFE_KEYS.indexOf(path) !== -1 || segments.some(segment => typeof segment === "string" && UNSAFE_KEYS.indexOf(segment) !== -1)) {
+		throw new Error(`"${path}" is not a property that can be written.`);
+	}
+
+	if (Object.prototype.hasOwnProperty.call(target, path)) {
+		target[path] = value;
+		return;
+	}
+
+	let current: Record<string, unknown> | unknown[] = target;
+	segments.forEach((segment, index) => {
+		if (Array.isArray(current) && typeof segment === "string") {
+			throw new Error(`"${path}" names a key "${segment}" of a list.`);
+		}
+
+		const isLast = index === segments.length - 1;
+		const container = current as Record<string | number, unknown>;
+		if (isLast) {
+			container[segment] = value;
+			return;
+		}
+
+		// Only the object's own properties are walked into, never inherited ones
+		const next = Object.prototype.hasOwnProperty.call(container, segment) ? container[segment] : undefined;
+		if (typeof next === "object" && next !== null) {
+			current = next as Record<string, unknown> | unknown[];
+		} else {
+			const created = typeof segments[index + 1] === "number" ? [] : {};
+			container[segment] = created;
+			current = created;
+		}
+	});
+}
+
+/**
+ * Checks whether a value is a plain object (a nested YAML mapping), as opposed to a list or scalar.
+ * @param value - The value to check
+ * @returns True for plain objects
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,40 @@
+import { App, TFile } from "obsidian";
+import { PropertyType } from "./types";
+import { getPropertyValue } from "./paths";
+
+/**
+ * Infers the type of a property from one of its values.
+ * @param val - The value, as read from frontmatter
+ * @returns The type, or "unknown" for empty values
+ */
+export function inferPropertyType(val: unknown): PropertyType {
+	if (val === null || val === undefined) return "unknown";
+	if (Array.isArray(val)) return "list";
+	if (typeof val === "number") return "number";
+	if (typeof val === "boolean") return "checkbox";
+	if (typeof val === "string") {
+		if (/^\d{4}-\d{2}-\d{2}$/.test(val)) return "date";
+		if (/^\d{4}-\d{2}-\d{2}T/.test(val)) return "datetime";
+	}
+	return "text";
+}
+
+/**
+ * Infers the type of a property of a note. When the note has no value for it, the first
+ * other note in the vault that has one decides.
+ * @param app - The Obsidian app instance
+ * @param file - The note
+ * @param path - The property path, e.g. `progress` or `book.rating`
+ * @returns The type, or "unknown" if no note has a value for the property
+ */
+export function findPropertyType(app: App, file: TFile, path: string): PropertyType {
+	const type = inferPropertyType(getPropertyValue(app.metadataCache.getFileCache(file)?.frontmatter, path));
+	if (type !== "unknown") return type;
+
+	for (const other of app.vault.getMarkdownFiles()) {
+		if (other === file) continue;
+		const otherType = inferPropertyType(getPropertyValue(app.metadataCache.getFileCache(other)?.frontmatter, path));
+		if (otherType !== "unknown") return otherType;
+	}
+	return "unknown";
+}
@@ -1,5 +1,35 @@
-import { App, TFile, MarkdownRenderer, Component } from "obsidian";
-import { applyFilterChain } from "./filters";
+import { App, TFile, MarkdownRenderer, Component, HeadingCache } from "obsidian";
+import { applyFilterChain, isRawFilterChain } from "./filters";
+import { HtmlContextTracker, escapeAttributeValue, escapeHtml, escapeScriptValue, escapeStyleText, isSafeTagName } from "./html";
+import { getPropertyValue, isPlainObject, parsePropertyPath, walkPropertyPath } from "./paths";
+import { parseTemplate, evaluateExpression, isTruthy, TemplateError, TemplateNode, ValueNode, EachNode, PartialNode, SectionNode, QueryNode, resolveLayout } from "./template";
+import { PartialConfig, FilterGroup, ScriptMode } from "./types";
+import { compileRules, MatchContext } from "./matcher";
+import { getFileField } from "./fields";
+import { dereferenceLink } from "./links";
+import { createScriptContext, runSandboxedScripts, runScripts } from "./scripting";
+import { RemovedMarkup, SanitizeConfig, mergeRemovedMarkup, sanitizeHtml } from "./sanitizer";
+import { bindInputs } from "./bindings";
+
+// Guards against partials that include each other indirectly through many levels
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Options for rendering a template
+ */
+export interface RenderOptions {
+	/** Partials that the template can include with {{> name}} */
+	partials?: PartialConfig[];
+	/** How the template's scripts run; scripts don't run unless the caller allows them */
+	scripts?: ScriptMode;
+	/** Which HTML the rendered view keeps; the standard policy by default */
+	sanitize?: SanitizeConfig;
+	/**
+	 * Whether this render is still the latest one of its container. Checked after every asynchronous step;
+	 * a render that was superseded stops without changing the container further or running scripts.
+	 */
+	isCurrent?: () => boolean;
+}
 
 /**
  * Renders a template into a container.
@@ -7,115 +37,320 @@ import { applyFilterChain } from "./filters";
  * @param template - The template to render
  * @param file - The file to render the template for
  * @param container - The container to render the template into
- * @param component - The component to render the template with
+ * @param component - The component to render the template with; timers and listeners registered by the template's scripts are cleaned up when it unloads
+ * @param options - Partials and other rendering options
+ * @returns The markup the sanitizer removed from the rendered view
  */
 export async function renderTemplate(
 	app: App,
 	template: string,
 	file: TFile,
 	container: HTMLElement,
-	component: Component
-) {
+	component: Component,
+	options: RenderOptions = {}
+): Promise<RemovedMarkup[]> {
+	const isCurrent = options.isCurrent ?? (() => true);
 	const cache = app.metadataCache.getFileCache(file);
 	const frontmatter = cache?.frontmatter;
 	const rawContent = await app.vault.read(file);
+	if (!isCurrent()) return [];
 
+	let bodyStart = 0;
 	let bodyContent = rawContent;
 	if (frontmatter && frontmatter.position) {
 		const position = frontmatter.position as { start?: { offset: number }, end?: { offset: number } };
 		if (position.end && typeof position.end === 'object' && position.end !== null && 'offset' in position.end) {
 			const endOffset = position.end.offset;
+			bodyStart = endOffset;
 			bodyContent = rawContent.substring(endOffset).trim();
 		}
 	}
+	const headings = cache?.headings || [];
 
 	const markdownQueue: { id: string, content: string }[] = [];
-	const contentPlaceholderId = `custom-view-content-${Date.now()}`;
+	// Parts of the note body ({{file.content}}, sections) rendered as full markdown blocks
+	const contentQueue: { id: string, content: string }[] = [];
+
+	// Variables introduced by {{#each}} blocks and partial parameters, innermost last; they shadow frontmatter properties of the same name
+	const scopes: Record<string, unknown>[] = [];
+
+	// Looks up the raw value of a path in this note, as used by conditions and loops
+	const lookupLocalValue = (path: string, isFileProperty: boolean): unknown => {
+		const segments = parsePropertyPath(path);
 
-	const resolveValue = (key: string, index?: string, isFileProperty: boolean = false): string | number | boolean | string[] | null => {
-		let value: string | number | boolean | string[] | undefined;
+		if (!isFileProperty) {
+			for (let i = scopes.length - 1; i >= 0; i--) {
+				const scope = scopes[i];
+				if (Object.prototype.hasOwnProperty.call(scope, segments[0])) {
+					return walkPropertyPath(scope[segments[0]], segments.slice(1));
+				}
+			}
+		}
 
 		// Handle file properties (only when using file. prefix)
 		if (isFileProperty) {
-			if (key === "name") value = file.name;
-			else if (key === "basename") value = file.basename;
-			else if (key === "size") value = file.stat.size;
-			else if (key === "ctime") value = file.stat.ctime; // Timestamp for dates
-			else if (key === "mtime") value = file.stat.mtime;
-			else if (key === "content") {
+			const key = String(segments[0]);
+			if (key === "content") {
 				// Special case: content is handled separately
 				return null;
 			}
+			const fileValue = getFileField(app, file, key, rawContent);
+			if (fileValue !== undefined) {
+				return walkPropertyPath(fileValue, segments.slice(1));
+			}
 		}
 
-		// Check frontmatter (works for both file.property and property syntax)
-		if (frontmatter && frontmatter[key] !== undefined) {
-			const frontmatterValue = frontmatter[key] as string | number | boolean | string[] | undefined;
-			value = frontmatterValue;
+		// Check frontmatter (also for file.property names that aren't file fields), following nested paths
+		return getPropertyValue(frontmatter, path);
+	};
+
+	// Looks up the raw value of a path, following links into other notes for paths like author->born
+	const lookupValue = (path: string, isFileProperty: boolean = false): unknown => {
+		const [localPath, ...linkedPaths] = path.split("->");
+		let value = lookupLocalValue(localPath, isFileProperty);
+		for (const linkedPath of linkedPaths) {
+			value = dereferenceLink(app, value, linkedPath, file.path);
 		}
+		return value;
+	};
+
+	// Looks up a value in the form placeholders render it
+	const resolveValue = (path: string, isFileProperty: boolean = false): string | number | boolean | string[] | null => {
+		const value = lookupValue(path, isFileProperty);
 
 		// If not found and not a file property, return null
-		if (value === undefined) return null;
+		if (value === undefined || value === null) return null;
 
-		if (index !== undefined && Array.isArray(value)) {
-			const i = parseInt(index);
-			return i < value.length ? value[i] : "";
-		}
-		return value ?? null;
+		if (Array.isArray(value)) return value.map(item => String(toDisplayValue(item)));
+		return toDisplayValue(value);
 	};
 
-	// Match both {{file.property}} and {{property}} patterns
-	const regex = /\{\{(file\.)?([a-zA-Z0-9_.-]+)(\[(\d+)\])?(?:\s*\|(.*?))?\}\}/g;
+	// Layouts named in {{extends}} are partials
+	const getLayout = (name: string): string | null => {
+		const layout = options.partials?.find(p => p.name === name);
+		return layout ? layout.template : null;
+	};
 
-	const filledTemplate = template.replace(
-		regex,
-		(_match: string, filePrefix: string | undefined, key: string, _bracket: string | undefined, index: string | undefined, filterChain: string | undefined, offset: number, fullString: string) => {
-			// Determine if this is a file.property pattern
-			const isFileProperty = filePrefix === 'file.';
+	let nodes: TemplateNode[];
+	try {
+		nodes = resolveLayout(parseTemplate(template), getLayout);
+	} catch (error) {
+		if (!(error instanceof TemplateError)) throw error;
+		container.empty();
+		container.createDiv({ cls: "cv-template-error", text: `Template error: ${error.message}` });
+		return [];
+	}
 
-			if (key === "content") {
-				return `<div id="${contentPlaceholderId}" class="markdown-rendered-content"></div>`;
-			}
+	// Only literal template text is tracked, so quotes and tags inside substituted values don't matter
+	let output = "";
+	const htmlContext = new HtmlContextTracker();
 
-			let value = resolveValue(key, index, isFileProperty);
-			if (value === null) return "";
+	const queueContent = (content: string): string => {
+		const placeholderId = `cv-content-${contentQueue.length}-${Date.now()}`;
+		contentQueue.push({ id: placeholderId, content });
+		return `<div id="${placeholderId}" class="markdown-rendered-content"></div>`;
+	};
 
-			if (filterChain) {
-				const filteredValue = applyFilterChain(value, filterChain.trim());
-				// Convert FilterValue to the expected return type
-				if (filteredValue === null || filteredValue === undefined) return "";
-				if (Array.isArray(filteredValue) && filteredValue.length > 0 && typeof filteredValue[0] === 'number') {
-					// Convert number[] to string[] for consistency
-					const numArray = filteredValue as number[];
-					value = numArray.map((v: number) => String(v));
-				} else {
-					value = filteredValue as string | number | boolean | string[] | null;
-				}
-				if (value === null) return "";
-			}
+	const renderSection = (node: SectionNode): string => {
+		const section = getSectionContent(rawContent, headings, node.heading);
+		return section ? queueContent(section) : "";
+	};
+
+	const renderValue = (node: ValueNode): string => {
+		if (node.path === "content") {
+			return queueContent(bodyContent);
+		}
+		if (node.path === "contentWithoutTitle") {
+			return queueContent(getContentWithoutTitle(rawContent, bodyStart, headings));
+		}
 
-			const prefix = fullString.substring(0, offset);
-			const doubleQuotesMatch = prefix.match(/"/g);
-			const singleQuotesMatch = prefix.match(/'/g);
-			const doubleQuotes = doubleQuotesMatch ? doubleQuotesMatch.length : 0;
-			const singleQuotes = singleQuotesMatch ? singleQuotesMatch.length : 0;
-			const isInsideAttribute = (doubleQuotes % 2 !== 0) || (singleQuotes % 2 !== 0);
+		let value = resolveValue(node.path, node.isFileProperty);
+		if (value === null) return "";
 
-			if (isInsideAttribute) {
-				return String(value);
+		if (node.filterChain) {
+			const filteredValue = applyFilterChain(value, node.filterChain, { app, sourcePath: file.path });
+			// Convert FilterValue to the expected return type
+			if (filteredValue === null || filteredValue === undefined) return "";
+			if (Array.isArray(filteredValue) && filteredValue.length > 0 && typeof filteredValue[0] === 'number') {
+				// Convert number[] to string[] for consistency
+				const numArray = filteredValue as number[];
+				value = numArray.map((v: number) => String(v));
 			} else {
+				value = filteredValue as string | number | boolean | string[] | null;
+			}
+			if (value === null) return "";
+		}
+
+		return insertValue(value, isRawFilterChain(node.filterChain));
+	};
+
+	// Escapes a value for where it is inserted; body text is rendered as markdown, which is sanitized after it renders
+	const insertValue = (rawValue: string | number | boolean | string[], raw: boolean): string => {
+		const value = String(rawValue);
+		if (raw) return value;
+
+		switch (htmlContext.getContext()) {
+			case "attribute":
+				return escapeAttributeValue(rawValue, htmlContext.getAttributeName(), htmlContext.getScriptPosition(), htmlContext.isUnquotedAttribute());
+			case "tag":
+				return isSafeTagName(value) ? value : "";
+			case "script":
+				return escapeScriptValue(rawValue, htmlContext.getScriptPosition());
+			case "style":
+				return escapeStyleText(value);
+			case "comment":
+				return "";
+			case "text": {
 				const placeholderId = `cv-md-${markdownQueue.length}-${Date.now()}`;
-				markdownQueue.push({ id: placeholderId, content: String(value) });
+				markdownQueue.push({ id: placeholderId, content: value });
 				return `<span id="${placeholderId}"></span>`;
 			}
 		}
-	);
+	};
+
+	// Renders a block once per item, with the item and loop helpers as variables
+	const renderItems = (items: unknown[], alias: string, body: TemplateNode[], elseBody: TemplateNode[]) => {
+		if (items.length === 0) {
+			renderNodes(elseBody);
+			return;
+		}
+
+		items.forEach((item, index) => {
+			scopes.push({
+				[alias]: item,
+				"@index": index,
+				"@first": index === 0,
+				"@last": index === items.length - 1
+			});
+			renderNodes(body);
+			scopes.pop();
+		});
+	};
+
+	const renderEach = (node: EachNode) => {
+		const value = lookupValue(node.path, node.isFileProperty);
+		// A single value (e.g. `genre: Drama` instead of a list) is treated as a list of one
+		let items: unknown[] = [];
+		if (Array.isArray(value)) items = value;
+		else if (value !== undefined && value !== null && value !== "") items = [value];
+
+		renderItems(items, node.alias, node.body, node.else);
+	};
+
+	const renderQuery = (node: QueryNode) => {
+		// ${path} in filter values is replaced with this note's value, e.g. "${author}" or "${file.path}"
+		const rules = interpolateRules(node.where, (path, isFileProperty) => lookupValue(path, isFileProperty));
+		const predicate = compileRules(rules);
+
+		let notes = app.vault.getMarkdownFiles().filter(note => {
+			if (note.path === file.path) return false;
+			const noteFrontmatter = app.metadataCache.getFileCache(note)?.frontmatter;
+			return predicate(new MatchContext(app, note, noteFrontmatter));
+		});
+
+		const sort = node.sort ? evaluateExpression(node.sort, lookupValue) : null;
+		if (typeof sort === "string" && sort.trim()) {
+			notes = sortNotes(app, notes, sort);
+		}
+
+		const limit = node.limit ? Number(evaluateExpression(node.limit, lookupValue)) : NaN;
+		if (!isNaN(limit) && limit >= 0) {
+			notes = notes.slice(0, limit);
+		}
+
+		renderItems(notes, node.alias, node.body, node.else);
+	};
+
+	// Partials are parsed once per render, however often they are included
+	const parsedPartials = new Map<string, TemplateNode[]>();
+	const partialStack: string[] = [];
+
+	const renderPartial = (node: PartialNode) => {
+		const partial = options.partials?.find(p => p.name === node.name);
+		if (!partial) {
+			output += renderError(`Missing partial "${node.name}"`);
+			return;
+		}
+		if (partialStack.includes(node.name)) {
+			output += renderError(`Partial "${node.name}" includes itself (${[...partialStack, node.name].join(" → ")})`);
+			return;
+		}
+		if (partialStack.length >= MAX_PARTIAL_DEPTH) {
+			output += renderError(`Partials are nested more than ${MAX_PARTIAL_DEPTH} levels deep`);
+			return;
+		}
+
+		let partialNodes = parsedPartials.get(node.name);
+		if (!partialNodes) {
+			try {
+				partialNodes = resolveLayout(parseTemplate(partial.template), getLayout);
+			} catch (error) {
+				if (!(error instanceof TemplateError)) throw error;
+				output += renderError(`Error in partial "${node.name}": ${error.message}`);
+				return;
+			}
+			parsedPartials.set(node.name, partialNodes);
+		}
+
+		// Parameters are evaluated in the caller's scope, then visible as variables inside the partial
+		const params: Record<string, unknown> = {};
+		for (const key of Object.keys(node.params)) {
+			params[key] = evaluateExpression(node.params[key], lookupValue);
+		}
+
+		scopes.push(params);
+		partialStack.push(node.name);
+		renderNodes(partialNodes);
+		partialStack.pop();
+		scopes.pop();
+	};
+
+	const renderNodes = (list: TemplateNode[]) => {
+		for (const node of list) {
+			if (node.type === "text") {
+				output += node.text;
+				htmlContext.feed(node.text);
+			} else if (node.type === "value") {
+				output += renderValue(node);
+			} else if (node.type === "if") {
+				const condition = evaluateExpression(node.condition, lookupValue);
+				renderNodes(isTruthy(condition) ? node.then : node.else);
+			} else if (node.type === "each") {
+				renderEach(node);
+			} else if (node.type === "query") {
+				renderQuery(node);
+			} else if (node.type === "partial") {
+				renderPartial(node);
+			} else if (node.type === "block") {
+				renderNodes(node.body);
+			} else if (node.type === "section") {
+				output += renderSection(node);
+			}
+		}
+	};
+
+	renderNodes(nodes);
+	const filledTemplate = output;
 
 	// Use DOMParser to safely parse HTML instead of innerHTML
 	const parser = new DOMParser();
 	const doc = parser.parseFromString(filledTemplate, 'text/html');
 	const tempContainer = doc.body;
 
+	// Sanitized before the markup is attached, since handlers such as onerror fire as soon as it is.
+	// The elements that markdown is rendered into are kept whatever the policy.
+	const scriptMode = options.scripts ?? "disabled";
+	const sanitizeConfig = options.sanitize ?? { policy: "standard" };
+	const placeholderIds = new Set([...markdownQueue, ...contentQueue].map(item => item.id));
+	const removed = sanitizeHtml(tempContainer, sanitizeConfig, scriptMode, placeholderIds);
+
+	// Markdown is rendered detached and sanitized before it is attached too. Scripts only ever come from
+	// the template, so the markdown of values and notes is cleaned as if scripts were disabled.
+	const renderMarkdown = async (markdown: string, el: HTMLElement) => {
+		await MarkdownRenderer.render(app, markdown, el, file.path, component);
+		mergeRemovedMarkup(removed, sanitizeHtml(el, sanitizeConfig, "disabled"));
+	};
+
 	// Clear the container and move nodes from temporary container
 	while (container.firstChild) {
 		container.removeChild(container.firstChild);
@@ -124,59 +359,168 @@ export async function renderTemplate(
 		container.appendChild(tempContainer.firstChild);
 	}
 
+	// Bound before markdown renders into the placeholders, so only the template's own inputs are bound,
+	// and before scripts run, so scripts see the inputs' current values
+	bindInputs(app, file, container, component);
+
 	for (const item of markdownQueue) {
 		const span = container.querySelector(`#${item.id}`) as HTMLElement;
 		if (span) {
-			await MarkdownRenderer.render(app, item.content, span, file.path, component);
-			span.removeAttribute("id");
+			const rendered = document.createElement("span");
+			await renderMarkdown(item.content, rendered);
+			if (!isCurrent()) return removed;
 
-			const p = span.querySelector("p");
-			if (p && p.parentElement === span && span.children.length === 1) {
+			const p = rendered.querySelector("p");
+			if (p && p.parentElement === rendered && rendered.children.length === 1) {
 				p.replaceWith(...Array.from(p.childNodes));
 			}
+			span.append(...Array.from(rendered.childNodes));
+			span.removeAttribute("id");
 		}
 	}
 
-	const contentEl = container.querySelector(`#${contentPlaceholderId}`) as HTMLElement;
-	if (contentEl) {
-		const sizer = document.createElement("div");
-		sizer.addClass("markdown-preview-sizer");
-		sizer.addClass("markdown-preview-section");
-		contentEl.appendChild(sizer);
+	for (const item of contentQueue) {
+		const contentEl = container.querySelector(`#${item.id}`) as HTMLElement;
+		if (contentEl) {
+			const sizer = document.createElement("div");
+			sizer.addClass("markdown-preview-sizer");
+			sizer.addClass("markdown-preview-section");
 
-		await MarkdownRenderer.render(app, bodyContent, sizer, file.path, component);
-		contentEl.removeAttribute("id");
+			await renderMarkdown(item.content, sizer);
+			if (!isCurrent()) return removed;
+			contentEl.appendChild(sizer);
+			contentEl.removeAttribute("id");
+		}
+	}
+
+	if (scriptMode === "enabled") {
+		runScripts(container, createScriptContext(app, file, container, component));
+	} else if (scriptMode === "sandboxed") {
+		runSandboxedScripts(container, createScriptContext(app, file, container, component), component);
 	}
 
-	executeScripts(container);
+	return removed;
 }
 
 /**
- * Executes all script tags found in the container.
- * @param container - The container to execute scripts in
+ * Converts a single value to the form placeholders render it in
+ * @param value - The value
+ * @returns Notes (e.g. query results) as links, nested mappings as JSON, everything else unchanged
  */
-function executeScripts(container: HTMLElement): void {
-	const scripts = Array.from(container.querySelectorAll('script'));
+function toDisplayValue(value: unknown): string | number | boolean {
+	if (value instanceof TFile) return `[[${value.path}|${value.basename}]]`;
+	// Nested mappings have no natural text form, so they render as JSON
+	if (isPlainObject(value)) return JSON.stringify(value);
+	if (typeof value === "number" || typeof value === "boolean") return value;
+	return String(value);
+}
 
-	scripts.forEach((oldScript) => {
-		const newScript = document.createElement('script');
+/**
+ * Replaces ${path} references in the filter values of query rules
+ * @param group - The query rules
+ * @param lookup - Looks up the value of a path in the note being rendered
+ * @returns A copy of the rules with the references replaced; lists are joined with commas
+ */
+function interpolateRules(group: FilterGroup, lookup: (path: string, isFileProperty: boolean) => unknown): FilterGroup {
+	return {
+		...group,
+		conditions: group.conditions.map(condition => {
+			if (condition.type === "group") return interpolateRules(condition, lookup);
+			if (!condition.value) return condition;
 
-		Array.from(oldScript.attributes).forEach((attr) => {
-			newScript.setAttribute(attr.name, attr.value);
-		});
+			const value = condition.value.replace(/\$\{\s*(file\.)?([^}\s]+)\s*\}/g, (_match: string, filePrefix: string | undefined, path: string) => {
+				const resolved = lookup(path, filePrefix === "file.");
+				if (resolved === undefined || resolved === null) return "";
+				if (Array.isArray(resolved)) return resolved.map(item => String(toDisplayValue(item))).join(", ");
+				return String(toDisplayValue(resolved));
+			});
+			return { ...condition, value };
+		})
+	};
+}
+
+/**
+ * Sorts notes by one or more fields
+ * @param app - The Obsidian app instance
+ * @param notes - The notes to sort
+ * @param sort - The sort specification, e.g. "file.mtime desc, title"; fields are those of filter rules
+ * @returns The sorted notes; notes without a value come last
+ */
+function sortNotes(app: App, notes: TFile[], sort: string): TFile[] {
+	const keys = sort.split(",").map(part => {
+		const match = part.trim().match(/^(.+?)(?:\s+(asc|desc))?$/i);
+		return match ? { field: match[1].trim(), descending: match[2]?.toLowerCase() === "desc" } : null;
+	}).filter((key): key is { field: string, descending: boolean } => key !== null);
+
+	const contexts = new Map(notes.map(note => [note, new MatchContext(app, note, app.metadataCache.getFileCache(note)?.frontmatter)]));
 
-		if (oldScript.textContent) {
-			const scriptContent = oldScript.textContent.trim();
-			if (scriptContent) {
-				newScript.textContent = `(function() {\n${scriptContent}\n})();`;
+	return [...notes].sort((a, b) => {
+		for (const key of keys) {
+			const aValue = (contexts.get(a) as MatchContext).getFieldValue(key.field);
+			const bValue = (contexts.get(b) as MatchContext).getFieldValue(key.field);
+			const order = compareSortValues(aValue, bValue);
+			if (order !== 0) {
+				// Missing values stay last in both directions
+				if (aValue === null || bValue === null) return order;
+				return key.descending ? -order : order;
 			}
 		}
+		return 0;
+	});
+}
 
-		if (oldScript.src && !oldScript.textContent) {
-			newScript.src = oldScript.src;
-		}
+/**
+ * Compares two field values for sorting: numbers numerically, everything else as text
+ * @param a - The first value
+ * @param b - The second value
+ * @returns A negative number, zero or a positive number
+ */
+function compareSortValues(a: string | number | boolean | string[] | null, b: string | number | boolean | string[] | null): number {
+	if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+	if (typeof a === "number" && typeof b === "number") return a - b;
+	return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
 
-		oldScript.parentNode?.insertBefore(newScript, oldScript);
-		oldScript.remove();
-	});
+/**
+ * Gets the content under a heading, up to the next heading of the same or a higher level
+ * @param rawContent - The full text of the note
+ * @param headings - The headings of the note, from the metadata cache
+ * @param heading - The text of the heading; matched exactly first, then ignoring case
+ * @returns The section without its heading line, or an empty string if the note has no such heading
+ */
+function getSectionContent(rawContent: string, headings: HeadingCache[], heading: string): string {
+	const wanted = heading.trim();
+	let index = headings.findIndex(h => h.heading.trim() === wanted);
+	if (index === -1) {
+		index = headings.findIndex(h => h.heading.trim().toLowerCase() === wanted.toLowerCase());
+	}
+	if (index === -1) return "";
+
+	const start = headings[index].position.end.offset;
+	const next = headings.slice(index + 1).find(h => h.level <= headings[index].level);
+	const end = next ? next.position.start.offset : rawContent.length;
+	return rawContent.substring(start, end).trim();
+}
+
+/**
+ * Gets the note body without its first level 1 heading, for layouts that show the title elsewhere
+ * @param rawContent - The full text of the note
+ * @param bodyStart - The offset where the body starts, after the frontmatter
+ * @param headings - The headings of the note, from the metadata cache
+ * @returns The body without the heading line
+ */
+function getContentWithoutTitle(rawContent: string, bodyStart: number, headings: HeadingCache[]): string {
+	const title = headings.find(h => h.level === 1 && h.position.start.offset >= bodyStart);
+	if (!title) return rawContent.substring(bodyStart).trim();
+
+	return (rawContent.substring(bodyStart, title.position.start.offset) + rawContent.substring(title.position.end.offset)).trim();
+}
+
+/**
+ * Builds the markup for an error shown in place of a broken part of a template
+ * @param message - The error message
+ * @returns The error markup
+ */
+function renderError(message: string): string {
+	return `<div class="cv-template-error">${escapeHtml(message)}</div>`;
 }
@@ -0,0 +1,84 @@
+import { App, TFile, moment } from "obsidian";
+import { ViewConfig } from "./types";
+import { compileRules, usesLinkGraph, MatchContext, RulePredicate } from "./matcher";
+
+interface CompiledView {
+	view: ViewConfig;
+	predicate: RulePredicate;
+}
+
+/**
+ * Finds the view that applies to a file.
+ * Each view's rules are compiled once when the views change, and the matching view is cached per file
+ * until the file's metadata changes (or, for rules that depend on the link graph, until links are re-resolved).
+ */
+export class ViewResolver {
+	app: App;
+	private compiledViews: CompiledView[] = [];
+	private dependsOnLinkGraph = false;
+	private matches = new Map<string, ViewConfig | null>();
+	private cacheDay = "";
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Compiles the rules of every view and clears all cached matches
+	 * @param views - The views, in the order they are checked
+	 */
+	setViews(views: ViewConfig[]) {
+		this.compiledViews = views.map(view => ({ view, predicate: compileRules(view.rules) }));
+		this.dependsOnLinkGraph = views.some(view => usesLinkGraph(view.rules));
+		this.invalidateAll();
+	}
+
+	/**
+	 * Gets the first view whose rules match a file
+	 * @param file - The file to find a view for
+	 * @returns The matching view, or null if none matches
+	 */
+	getMatchingView(file: TFile): ViewConfig | null {
+		// Relative dates ("today", "-7 days") move at midnight, so matches only hold for the day they were computed
+		const today = moment().format("YYYY-MM-DD");
+		if (today !== this.cacheDay) {
+			this.matches.clear();
+			this.cacheDay = today;
+		}
+
+		const cached = this.matches.get(file.path);
+		if (cached !== undefined) return cached;
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const context = new MatchContext(this.app, file, frontmatter);
+		const match = this.compiledViews.find(compiled => compiled.predicate(context));
+		const view = match ? match.view : null;
+
+		this.matches.set(file.path, view);
+		return view;
+	}
+
+	/**
+	 * Drops the cached match of a single file, e.g. after its metadata changed
+	 * @param path - The path of the file
+	 */
+	invalidateFile(path: string) {
+		this.matches.delete(path);
+	}
+
+	/**
+	 * Drops cached matches after the link graph was re-resolved, if any rule depends on it
+	 */
+	invalidateLinkGraph() {
+		if (this.dependsOnLinkGraph) {
+			this.invalidateAll();
+		}
+	}
+
+	/**
+	 * Drops all cached matches
+	 */
+	invalidateAll() {
+		this.matches.clear();
+	}
+}
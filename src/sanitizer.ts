@@ -0,0 +1,163 @@
+import { SanitizePolicy, ScriptMode } from "./types";
+import { URL_ATTRIBUTES, isJavascriptUrl } from "./html";
+
+// Elements that embed other documents or plugins, removed by the standard policy
+const STANDARD_BLOCKED_TAGS = ["iframe", "frame", "frameset", "object", "embed", "applet", "base", "meta"];
+
+const STRICT_TAGS = [
+	"a", "abbr", "article", "aside", "b", "blockquote", "br", "button", "caption", "cite", "code", "col", "colgroup",
+	"dd", "del", "details", "dfn", "div", "dl", "dt", "em", "figcaption", "figure", "footer",
+	"h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "i", "img", "input", "ins", "kbd", "label", "li", "main",
+	"mark", "meter", "nav", "ol", "optgroup", "option", "p", "pre", "progress", "q", "s", "samp", "section", "select",
+	"small", "span", "strong", "sub", "summary", "sup", "table", "tbody", "td", "textarea", "tfoot", "th", "thead",
+	"time", "tr", "u", "ul", "var"
+];
+
+const STRICT_ATTRIBUTES = [
+	"alt", "checked", "class", "colspan", "datetime", "dir", "disabled", "for", "height", "href", "id", "lang",
+	"max", "min", "multiple", "name", "open", "placeholder", "readonly", "role", "rowspan", "selected", "span",
+	"src", "step", "title", "type", "value", "width", "data-*", "aria-*"
+];
+
+/**
+ * The sanitization settings of a view
+ */
+export interface SanitizeConfig {
+	policy: SanitizePolicy;
+	/** Tags kept by the "custom" policy */
+	allowedTags?: string[];
+	/** Attributes kept by the "custom" policy; a trailing `*` keeps every attribute with the prefix */
+	allowedAttributes?: string[];
+}
+
+/**
+ * A kind of markup the sanitizer removed from a rendered view
+ */
+export interface RemovedMarkup {
+	/** What was removed, e.g. "<iframe>" or "onclick attribute" */
+	description: string;
+	/** How many times it was removed */
+	count: number;
+}
+
+/**
+ * Removes the markup a view's policy doesn't allow from rendered HTML. Script elements, event handler
+ * attributes and javascript: URLs are kept only when the view's scripts are allowed to run.
+ * @param root - The element to clean, before it is attached to the document
+ * @param config - The view's sanitization settings
+ * @param scriptMode - How the view's scripts run
+ * @param reservedIds - The ids of the elements the renderer fills in later; they are kept whatever the policy,
+ * with only their `id` and `class` attributes
+ * @returns What was removed, in the order it was first found
+ */
+export function sanitizeHtml(root: HTMLElement, config: SanitizeConfig, scriptMode: ScriptMode, reservedIds: ReadonlySet<string> = new Set()): RemovedMarkup[] {
+	const removed: RemovedMarkup[] = [];
+	const record = (description: string) => {
+		const existing = removed.find(item => item.description === description);
+		if (existing) {
+			existing.count++;
+		} else {
+			removed.push({ description, count: 1 });
+		}
+	};
+
+	const isTagAllowed = createTagCheck(config);
+	const isAttributeAllowed = createAttributeCheck(config);
+	// Strict views never run scripts, whatever their script setting
+	const keepScripts = scriptMode !== "disabled" && config.policy !== "strict" && isTagAllowed("script");
+	const keepInlineScripts = scriptMode === "enabled" && config.policy !== "strict";
+
+	Array.from(root.querySelectorAll("*")).forEach((el) => {
+		// Skip elements inside an element that was already removed
+		if (!root.contains(el)) return;
+
+		if (el.id && reservedIds.has(el.id)) {
+			Array.from(el.attributes).forEach((attr) => {
+				if (attr.name === "id" || attr.name === "class") return;
+				record(`${attr.name.toLowerCase()} attribute`);
+				el.removeAttribute(attr.name);
+			});
+			return;
+		}
+
+		const tag = el.localName;
+		if (tag === "script" ? !keepScripts : !isTagAllowed(tag)) {
+			record(`<${tag}>`);
+			el.remove();
+			return;
+		}
+
+		Array.from(el.attributes).forEach((attr) => {
+			const name = attr.name.toLowerCase();
+			if (name.startsWith("on")) {
+				if (keepInlineScripts && isAttributeAllowed(name)) return;
+			} else if (URL_ATTRIBUTES.indexOf(name) !== -1 && isJavascriptUrl(attr.value)) {
+				if (keepInlineScripts) return;
+				record(`javascript: URL in ${name}`);
+				el.removeAttribute(attr.name);
+				return;
+			} else if (name !== "srcdoc" && isAttributeAllowed(name)) {
+				return;
+			}
+			record(`${name} attribute`);
+			el.removeAttribute(attr.name);
+		});
+	});
+
+	return removed;
+}
+
+/**
+ * Adds what a later sanitizing pass removed to an earlier report
+ * @param into - The report to add to
+ * @param items - What the later pass removed
+ */
+export function mergeRemovedMarkup(into: RemovedMarkup[], items: RemovedMarkup[]): void {
+	items.forEach((item) => {
+		const existing = into.find(other => other.description === item.description);
+		if (existing) {
+			existing.count += item.count;
+		} else {
+			into.push({ ...item });
+		}
+	});
+}
+
+/**
+ * Creates the check for whether a policy keeps a tag
+ */
+function createTagCheck(config: SanitizeConfig): (tag: string) => boolean {
+	switch (config.policy) {
+		case "strict":
+			return tag => STRICT_TAGS.indexOf(tag) !== -1;
+		case "custom": {
+			const allowed = (config.allowedTags || []).map(tag => tag.trim().toLowerCase());
+			return tag => allowed.indexOf(tag) !== -1;
+		}
+		default:
+			return tag => STANDARD_BLOCKED_TAGS.indexOf(tag) === -1;
+	}
+}
+
+/**
+ * Creates the check for whether a policy keeps an attribute, given its lowercase name
+ */
+function createAttributeCheck(config: SanitizeConfig): (name: string) => boolean {
+	if (config.policy === "standard") return () => true;
+
+	const allowed = config.policy === "strict"
+		? STRICT_ATTRIBUTES
+		: (config.allowedAttributes || []).map(name => name.trim().toLowerCase());
+	return name => allowed.some(pattern => pattern.endsWith("*")
+		? name.startsWith(pattern.slice(0, -1))
+		: name === pattern);
+}
+
+/**
+ * Parses a comma- or whitespace-separated list of tag or attribute names, as entered in the settings
+ * @param value - The list
+ * @returns The names, lowercase
+ */
+export function parseNameList(value: string): string[] {
+	return value.split(/[\s,]+/).map(name => name.trim().toLowerCase()).filter(name => name.length > 0);
+}
@@ -0,0 +1,289 @@
+import { App, Component, EventRef, FrontMatterCache, Keymap, TFile } from "obsidian";
+import { ScriptMode, ViewConfig } from "./types";
+import { isPlainObject } from "./paths";
+
+// Global through which injected script elements find the cv context of their render
+const CONTEXT_REGISTRY = "customViewsScriptContexts";
+let nextContextId = 0;
+
+// Events of the view that sandboxed scripts can listen to with cv.on()
+const SANDBOX_EVENT_TYPES = ["click", "change", "input"];
+
+/**
+ * The document loaded into the sandbox iframe. It has no access to the note; it receives the scripts and
+ * a copy of the note's data in an "init" message and sends requests to change the view back as messages.
+ */
+const SANDBOX_DOCUMENT = `<!DOCTYPE html><html><body><script>
+(function () {
+	var handlers = {};
+	var nextHandlerId = 0;
+	function send(message) { parent.postMessage(message, "*"); }
+	window.addEventListener("message", function (event) {
+		if (event.source !== parent) return;
+		var message = event.data;
+		if (message.type === "init") {
+			var cv = {
+				file: message.file,
+				frontmatter: message.frontmatter,
+				openLink: function (link, newTab) { send({ type: "openLink", link: String(link), newTab: !!newTab }); },
+				setText: function (selector, text) { send({ type: "setText", selector: String(selector), text: String(text) }); },
+				toggleClass: function (selector, className, force) { send({ type: "toggleClass", selector: String(selector), className: String(className), force: force }); },
+				on: function (selector, eventType, handler) {
+					var id = nextHandlerId++;
+					handlers[id] = handler;
+					send({ type: "listen", id: id, selector: String(selector), eventType: String(eventType) });
+				}
+			};
+			message.scripts.forEach(function (source) {
+				try {
+					new Function("cv", source)(cv);
+				} catch (e) {
+					console.error("[Custom Views] Sandboxed script error:", e);
+				}
+			});
+		} else if (message.type === "event" && handlers[message.id]) {
+			handlers[message.id](message.detail);
+		}
+	});
+})();
+</script></body></html>`;
+
+/**
+ * The `cv` object available to scripts in templates. Everything registered through it is
+ * cleaned up when the view re-renders, the note goes back to its default view or its pane closes.
+ */
+export interface ScriptContext {
+	/** The note the view is rendered for */
+	file: TFile;
+	/** The note's frontmatter */
+	frontmatter: FrontMatterCache | Record<string, never>;
+	/** The element the view is rendered into; query it instead of `document` */
+	container: HTMLElement;
+	app: App;
+	/**
+	 * Opens a link the way clicking it in the note would
+	 * @param linktext - The link, e.g. "Other note" or "Other note#Heading"
+	 * @param newLeaf - Whether to open the note in a new tab
+	 */
+	openLink(linktext: string, newLeaf?: boolean): Promise<void>;
+	/** Registers a function to run when the view is re-rendered or removed */
+	onUnload(callback: () => void): void;
+	/** Like `window.setTimeout`, cleared automatically */
+	setTimeout(callback: () => void, delay?: number): number;
+	/** Like `window.setInterval`, cleared automatically */
+	setInterval(callback: () => void, delay?: number): number;
+	/** Like `target.addEventListener`, removed automatically */
+	addEventListener(target: EventTarget, type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+	/** Registers an Obsidian event (e.g. from `app.workspace.on(...)`), detached automatically */
+	registerEvent(eventRef: EventRef): void;
+}
+
+/**
+ * Creates the context for the scripts of one render. Cleanup is tied to the given component,
+ * which the plugin unloads before the next render of the same view.
+ * @param app - The Obsidian app instance
+ * @param file - The note being rendered
+ * @param container - The element the view is rendered into
+ * @param component - The component owning this render
+ * @returns The script context
+ */
+export function createScriptContext(app: App, file: TFile, container: HTMLElement, component: Component): ScriptContext {
+	return {
+		file,
+		frontmatter: app.metadataCache.getFileCache(file)?.frontmatter || {},
+		container,
+		app,
+		openLink: (linktext: string, newLeaf = false) => {
+			return app.workspace.openLinkText(linktext, file.path, newLeaf);
+		},
+		onUnload: (callback: () => void) => {
+			component.register(callback);
+		},
+		setTimeout: (callback: () => void, delay?: number) => {
+			const id = window.setTimeout(callback, delay);
+			component.register(() => window.clearTimeout(id));
+			return id;
+		},
+		setInterval: (callback: () => void, delay?: number) => {
+			return component.registerInterval(window.setInterval(callback, delay));
+		},
+		addEventListener: (target: EventTarget, type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions) => {
+			target.addEventListener(type, listener, options);
+			component.register(() => target.removeEventListener(type, listener, options));
+		},
+		registerEvent: (eventRef: EventRef) => {
+			component.registerEvent(eventRef);
+		}
+	};
+}
+
+/**
+ * Runs the inline scripts of a rendered template with the `cv` context as a parameter.
+ * Scripts with a `src` are loaded as usual and don't get the context.
+ * @param container - The container whose scripts to run
+ * @param context - The context passed to inline scripts as `cv`
+ */
+export function runScripts(container: HTMLElement, context: ScriptContext): void {
+	const scripts = Array.from(container.querySelectorAll('script'));
+	if (scripts.length === 0) return;
+
+	// Each render gets its own key, so scripts of other panes never pick up this context
+	const registry = getContextRegistry(container.win);
+	const key = `${nextContextId++}`;
+	registry[key] = context;
+	context.onUnload(() => {
+		delete registry[key];
+	});
+
+	scripts.forEach((oldScript) => {
+		const newScript = container.doc.createElement('script');
+
+		Array.from(oldScript.attributes).forEach((attr) => {
+			newScript.setAttribute(attr.name, attr.value);
+		});
+
+		const scriptContent = oldScript.textContent?.trim();
+		if (scriptContent) {
+			newScript.textContent = `(function (cv) {\ntry {\n${scriptContent}\n} catch (e) {\nconsole.error(${JSON.stringify(`[Custom Views] Script error in view for '${context.file.path}':`)}, e);\n}\n})(window.${CONTEXT_REGISTRY}[${JSON.stringify(key)}]);`;
+		}
+
+		oldScript.parentNode?.insertBefore(newScript, oldScript);
+		oldScript.remove();
+	});
+}
+
+/**
+ * Gets the global object through which injected scripts pick up their context
+ * @param win - The window the view is rendered in
+ * @returns The contexts of the current renders, by key
+ */
+function getContextRegistry(win: Window): Record<string, ScriptContext> {
+	const globals = win as unknown as Record<string, Record<string, ScriptContext> | undefined>;
+	let registry = globals[CONTEXT_REGISTRY];
+	if (!registry) {
+		registry = {};
+		globals[CONTEXT_REGISTRY] = registry;
+	}
+	return registry;
+}
+
+/**
+ * Runs the inline scripts of a rendered template in a sandboxed iframe. The scripts get a copy of the
+ * note's data and can only change the view through the messages the sandbox document sends.
+ * @param container - The container whose scripts to run
+ * @param context - The context of the render; only its data is passed into the sandbox
+ * @param component - The component owning this render, which removes the message listener when it unloads
+ */
+export function runSandboxedScripts(container: HTMLElement, context: ScriptContext, component: Component): void {
+	const sources: string[] = [];
+	container.querySelectorAll('script').forEach((script) => {
+		const scriptContent = script.textContent?.trim();
+		if (scriptContent) sources.push(scriptContent);
+		script.remove();
+	});
+	if (sources.length === 0) return;
+
+	const frame = container.createEl("iframe", { cls: "cv-script-sandbox" });
+	// Without allow-same-origin the frame can't reach the app or the vault
+	frame.setAttribute("sandbox", "allow-scripts");
+	frame.srcdoc = SANDBOX_DOCUMENT;
+
+	const post = (message: unknown) => frame.contentWindow?.postMessage(message, "*");
+
+	component.registerDomEvent(frame, "load", () => {
+		post({
+			type: "init",
+			file: { path: context.file.path, name: context.file.name, basename: context.file.basename },
+			frontmatter: JSON.parse(JSON.stringify(context.frontmatter)) as unknown,
+			scripts: sources
+		});
+	});
+
+	component.registerDomEvent(container.win, "message", (evt: MessageEvent) => {
+		if (evt.source !== frame.contentWindow || !isPlainObject(evt.data)) return;
+		handleSandboxMessage(evt.data, context, component, post);
+	});
+}
+
+/**
+ * Carries out a request from a sandboxed script
+ */
+function handleSandboxMessage(message: Record<string, unknown>, context: ScriptContext, component: Component, post: (message: unknown) => void): void {
+	const { container } = context;
+	const selector = typeof message.selector === "string" ? message.selector : "";
+
+	switch (message.type) {
+		case "openLink":
+			if (typeof message.link === "string") {
+				void context.openLink(message.link, message.newTab === true);
+			}
+			break;
+		case "setText":
+			queryView(container, selector).forEach(el => el.setText(String(message.text)));
+			break;
+		case "toggleClass":
+			queryView(container, selector).forEach(el => {
+				el.toggleClass(String(message.className), typeof message.force === "boolean" ? message.force : !el.hasClass(String(message.className)));
+			});
+			break;
+		case "listen": {
+			const eventType = String(message.eventType);
+			if (SANDBOX_EVENT_TYPES.indexOf(eventType) === -1) {
+				console.warn(`[Custom Views] Sandboxed scripts can't listen to '${eventType}' events.`);
+				break;
+			}
+			component.registerDomEvent(container, eventType as "click" | "change" | "input", (evt: Event) => {
+				const target = evt.target instanceof HTMLElement ? evt.target : null;
+				const matched = target && queryView(container, selector).find(el => el.contains(target));
+				if (!matched) return;
+				post({
+					type: "event",
+					id: message.id,
+					detail: {
+						value: matched instanceof HTMLInputElement || matched instanceof HTMLSelectElement || matched instanceof HTMLTextAreaElement ? matched.value : undefined,
+						checked: matched instanceof HTMLInputElement ? matched.checked : undefined,
+						dataset: { ...matched.dataset },
+						newTab: evt instanceof MouseEvent && Keymap.isModEvent(evt) !== false
+					}
+				});
+			});
+			break;
+		}
+	}
+}
+
+/**
+ * Finds the elements of the view matching a selector, ignoring invalid selectors
+ */
+function queryView(container: HTMLElement, selector: string): HTMLElement[] {
+	try {
+		return Array.from(container.querySelectorAll<HTMLElement>(selector));
+	} catch {
+		console.warn(`[Custom Views] Invalid selector from sandboxed script: '${selector}'`);
+		return [];
+	}
+}
+
+/**
+ * Hashes a template, to tell whether it changed since the user trusted it
+ * @param template - The template source
+ * @returns The SHA-256 hash as a hex string
+ */
+export async function hashTemplate(template: string): Promise<string> {
+	const digest = await window.crypto.subtle.digest("SHA-256", new TextEncoder().encode(template));
+	return Array.from(new Uint8Array(digest)).map(byte => ("0" + byte.toString(16)).slice(-2)).join("");
+}
+
+/**
+ * Decides how the scripts of a view run. Imported views only run scripts once the user trusted
+ * the exact template that is rendered.
+ * @param view - The view being rendered
+ * @param template - The template the view is rendered with
+ * @returns The script mode to render with
+ */
+export async function resolveScriptMode(view: ViewConfig, template: string): Promise<ScriptMode> {
+	const mode = view.scriptMode ?? "enabled";
+	if (mode === "disabled" || !view.imported) return mode;
+	if (!view.trustedTemplateHash) return "disabled";
+	return view.trustedTemplateHash === await hashTemplate(template) ? mode : "disabled";
+}
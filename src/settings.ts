@@ -1,10 +1,14 @@
-import { App, PluginSettingTab, Setting, ButtonComponent, TextComponent, setIcon, Modal, FuzzySuggestModal, FuzzyMatch } from "obsidian";
+import { App, PluginSettingTab, Setting, ButtonComponent, TextComponent, setIcon, Modal, FuzzySuggestModal, FuzzyMatch, Notice } from "obsidian";
 import CustomViewsPlugin from "./main";
-import { ViewConfig, FilterGroup, Filter, FilterOperator, FilterConjunction } from "./types";
+import { ViewConfig, PartialConfig, FilterGroup, Filter, FilterOperator, FilterConjunction, MatchMode, ScriptMode, SanitizePolicy, PropertyType } from "./types";
+import { RELATIVE_DATE_SUGGESTIONS, resolveDateValue } from "./dates";
+import { globToRegExp, isRuleCondition, parseRegexValue } from "./matcher";
+import { isPlainObject } from "./paths";
+import { hashTemplate } from "./scripting";
+import { parseNameList } from "./sanitizer";
+import { inferPropertyType } from "./properties";
 
 
-type PropertyType = "text" | "number" | "date" | "datetime" | "list" | "checkbox" | "file" | "unknown";
-
 const TYPE_ICONS: Record<PropertyType, string> = {
 	text: "text",
 	number: "binary",
@@ -17,14 +21,41 @@ const TYPE_ICONS: Record<PropertyType, string> = {
 };
 
 const OPERATORS: Record<string, string[]> = {
-	text: ["contains", "does not contain", "is", "is not", "starts with", "ends with", "contains any of", "does not contain any of", "contains all of", "does not contain all of", "is empty", "is not empty"],
-	list: ["contains", "does not contain", "contains any of", "does not contain any of", "contains all of", "does not contain all of", "is empty", "is not empty"],
+	text: ["contains", "does not contain", "is", "is not", "starts with", "ends with", "matches regex", "does not match regex", "contains any of", "does not contain any of", "contains all of", "does not contain all of", "is empty", "is not empty"],
+	list: ["contains", "does not contain", "matches regex", "does not match regex", "contains any of", "does not contain any of", "contains all of", "does not contain all of", "is empty", "is not empty"],
 	number: ["=", "≠", "<", "≤", ">", "≥", "is empty", "is not empty"],
 	date: ["on", "not on", "before", "on or before", "after", "on or after", "is empty", "is not empty"],
 	checkbox: ["is"],
-	file: ["links to", "does not link to", "in folder", "is not in folder", "has tag", "does not have tag", "has property", "does not have property"]
+	file: ["links to", "does not link to", "links to any note in folder", "does not link to any note in folder", "is linked from", "is not linked from", "has at least N backlinks", "has no backlinks", "in folder", "is not in folder", "path matches", "path does not match", "path matches any of", "path does not match any of", "has tag", "does not have tag", "has property", "does not have property", "has heading", "does not have heading", "has unfinished tasks", "has no unfinished tasks", "embeds", "does not embed"]
 };
 
+/**
+ * Operators that take no value, so the value input is hidden for them
+ */
+const VALUELESS_OPERATORS: string[] = ["is empty", "is not empty", "has no backlinks", "has unfinished tasks", "has no unfinished tasks"];
+
+/**
+ * Operators that compare text, so they honor a filter's match mode
+ */
+const MATCH_MODE_OPERATORS: string[] = [
+	"contains", "does not contain", "is", "is not", "starts with", "ends with",
+	"matches regex", "does not match regex",
+	"contains any of", "does not contain any of", "contains all of", "does not contain all of",
+	"has tag", "does not have tag", "has heading", "does not have heading",
+	"path matches", "path does not match", "path matches any of", "path does not match any of"
+];
+
+const MATCH_MODES: { mode: MatchMode, label: string, icon: string }[] = [
+	{ mode: "exact", label: "Match case", icon: "case-sensitive" },
+	{ mode: "ignore case", label: "Ignore case", icon: "case-lower" },
+	{ mode: "ignore case and diacritics", label: "Ignore case and diacritics", icon: "languages" }
+];
+
+/**
+ * Operators whose value is a number regardless of the property type
+ */
+const NUMERIC_VALUE_OPERATORS: string[] = ["has at least N backlinks"];
+
 const DEFAULT_RULES: FilterGroup = {
 	type: "group",
 	operator: "AND",
@@ -37,6 +68,7 @@ export interface CustomViewsSettings {
 	workInLivePreview: boolean;
 	workInCanvas: boolean;
 	views: ViewConfig[];
+	partials: PartialConfig[];
 }
 
 export const DEFAULT_SETTINGS: CustomViewsSettings = {
@@ -50,7 +82,8 @@ export const DEFAULT_SETTINGS: CustomViewsSettings = {
 			rules: JSON.parse(JSON.stringify(DEFAULT_RULES)) as FilterGroup,
 			template: "<h1>{{file.basename}}</h1> <p>{{file.content}}</p>"
 		}
-	]
+	],
+	partials: []
 };
 
 export class CustomViewsSettingTab extends PluginSettingTab {
@@ -124,6 +157,13 @@ export class CustomViewsSettingTab extends PluginSettingTab {
 					new EditViewModal(this.app, this.plugin, newView, newIndex, () => {
 						this.display();
 					}).open();
+				}))
+			.addButton(btn => btn
+				.setButtonText("Import")
+				.onClick(() => {
+					new ImportViewsModal(this.app, this.plugin, () => {
+						this.display();
+					}).open();
 				}));
 
 		const viewsListContainer = containerEl.createDiv({ cls: "cv-views-list-container" });
@@ -131,6 +171,74 @@ export class CustomViewsSettingTab extends PluginSettingTab {
 		this.plugin.settings.views.forEach((view, index) => {
 			this.renderViewListItem(viewsListContainer, view, index);
 		});
+
+		new Setting(containerEl)
+			.setHeading()
+			.setName("Partials")
+			.setDesc("Reusable pieces of template markup. Include one in any view with {{> name}}, optionally passing values like {{> header title=\"Reviews\"}}.")
+			.addButton(btn => btn
+				.setButtonText("Add new partial")
+				.onClick(() => {
+					const newPartial: PartialConfig = {
+						id: `${Date.now()}`,
+						name: this.getUniquePartialName("partial"),
+						template: ""
+					};
+					new EditPartialModal(this.app, this.plugin, newPartial, null, () => {
+						this.display();
+					}).open();
+				}));
+
+		const partialsListContainer = containerEl.createDiv({ cls: "cv-views-list-container" });
+
+		this.plugin.settings.partials.forEach((partial, index) => {
+			this.renderPartialListItem(partialsListContainer, partial, index);
+		});
+	}
+
+	/**
+	 * Finds a partial name that is not taken yet
+	 * @param base - The preferred name
+	 * @returns The name, with a number appended if needed
+	 */
+	getUniquePartialName(base: string): string {
+		const names = new Set(this.plugin.settings.partials.map(p => p.name));
+		let name = base;
+		for (let i = 2; names.has(name); i++) {
+			name = `${base}-${i}`;
+		}
+		return name;
+	}
+
+	renderPartialListItem(container: HTMLElement, partial: PartialConfig, index: number) {
+		const listItem = container.createDiv({ cls: "cv-view-list-item" });
+
+		const icon = listItem.createDiv({ cls: "cv-view-drag-handle" });
+		setIcon(icon, "puzzle");
+
+		listItem.createSpan({ cls: "cv-view-name", text: partial.name });
+
+		const actionsContainer = listItem.createDiv({ cls: "cv-view-actions" });
+
+		const editBtn = actionsContainer.createDiv({ cls: "clickable-icon" });
+		setIcon(editBtn, "pencil");
+		editBtn.setAttribute("aria-label", "Edit partial");
+		editBtn.onclick = (e) => {
+			e.stopPropagation();
+			new EditPartialModal(this.app, this.plugin, partial, index, () => {
+				this.display();
+			}).open();
+		};
+
+		const deleteBtn = actionsContainer.createDiv({ cls: "clickable-icon" });
+		setIcon(deleteBtn, "trash-2");
+		deleteBtn.setAttribute("aria-label", "Delete partial");
+		deleteBtn.onclick = async (e) => {
+			e.stopPropagation();
+			this.plugin.settings.partials.splice(index, 1);
+			await this.plugin.saveSettings();
+			this.display();
+		};
 	}
 
 	renderViewListItem(container: HTMLElement, view: ViewConfig, index: number) {
@@ -156,6 +264,15 @@ export class CustomViewsSettingTab extends PluginSettingTab {
 			}).open();
 		};
 
+		const copyBtn = actionsContainer.createDiv({ cls: "clickable-icon" });
+		setIcon(copyBtn, "copy");
+		copyBtn.setAttribute("aria-label", "Copy view to share");
+		copyBtn.onclick = async (e) => {
+			e.stopPropagation();
+			await window.navigator.clipboard.writeText(JSON.stringify(toSharedView(view), null, 2));
+			new Notice(`Copied view "${view.name}". Paste it into Import to add it to another vault.`);
+		};
+
 		const deleteBtn = actionsContainer.createDiv({ cls: "clickable-icon" });
 		setIcon(deleteBtn, "trash-2");
 		deleteBtn.setAttribute("aria-label", "Delete view");
@@ -230,6 +347,7 @@ class EditViewModal extends Modal {
 	viewIndex: number;
 	onSave: () => void;
 	private nameTextComponent: TextComponent | null = null;
+	private trustSetting: Setting | null = null;
 
 	constructor(app: App, plugin: CustomViewsPlugin, view: ViewConfig, viewIndex: number, onSave: () => void) {
 		super(app);
@@ -272,7 +390,30 @@ class EditViewModal extends Modal {
 		builder.render(rulesContainer);
 
 		contentEl.createEl("h3", { text: "HTML template" });
+
+		new Setting(contentEl)
+			.setName("Template file")
+			.setDesc("Path of an HTML file in the vault to use as the template, e.g. _views/book.html. Open notes re-render when the file changes. Leave empty to use the template below.")
+			.addText(text => {
+				const listId = "cv-template-file-suggestions";
+				const dataList = contentEl.createEl("datalist", { attr: { id: listId } });
+				this.app.vault.getFiles()
+					.filter(file => file.extension === "html")
+					.forEach(file => dataList.createEl("option", { attr: { value: file.path } }));
+
+				text.inputEl.setAttribute("list", listId);
+				text.setPlaceholder("_views/book.html")
+					.setValue(this.view.templateFile || "")
+					.onChange((value) => {
+						this.view.templateFile = value.trim() || undefined;
+						void this.updateTrustStatus();
+						// A template file replaces the inline template, so only one of them is shown
+						templateContainer.toggleClass("cv-hidden", !!this.view.templateFile);
+					});
+			});
+
 		const templateContainer = contentEl.createDiv({ cls: "cv-bases-template-container" });
+		templateContainer.toggleClass("cv-hidden", !!this.view.templateFile);
 		const textarea = templateContainer.createEl("textarea", {
 			cls: "cv-textarea",
 			text: this.view.template
@@ -280,16 +421,81 @@ class EditViewModal extends Modal {
 		textarea.addEventListener("input", (e: Event) => {
 			const target = e.target as HTMLTextAreaElement;
 			this.view.template = target.value;
+			void this.updateTrustStatus();
 		});
 
-		const buttonContainer = contentEl.createDiv('modal-button-container');
+		new Setting(contentEl)
+			.setName("Scripts")
+			.setDesc("How the template's <script> tags run. In a sandbox, scripts can't reach your vault and change the view only through the cv.setText, cv.toggleClass, cv.on and cv.openLink messages.")
+			.addDropdown(dropdown => dropdown
+				.addOption("enabled", "Run in the note")
+				.addOption("sandboxed", "Run in a sandbox")
+				.addOption("disabled", "Don't run")
+				.setValue(this.view.scriptMode ?? "enabled")
+				.onChange((value) => {
+					this.view.scriptMode = value as ScriptMode;
+				}));
+
+		new Setting(contentEl)
+			.setName("HTML policy")
+			.setDesc("Which HTML the rendered view keeps. Standard removes embedded frames and objects; strict keeps only basic formatting, tables, images, links and inputs, and never runs scripts. Use the explain command to see what was removed.")
+			.addDropdown(dropdown => dropdown
+				.addOption("standard", "Standard")
+				.addOption("strict", "Strict")
+				.addOption("custom", "Custom")
+				.setValue(this.view.sanitizePolicy ?? "standard")
+				.onChange((value) => {
+					this.view.sanitizePolicy = value as SanitizePolicy;
+					customPolicyContainer.toggleClass("cv-hidden", value !== "custom");
+				}));
+
+		const customPolicyContainer = contentEl.createDiv();
+		customPolicyContainer.toggleClass("cv-hidden", this.view.sanitizePolicy !== "custom");
+
+		new Setting(customPolicyContainer)
+			.setName("Allowed tags")
+			.setDesc("Tags the view keeps, separated by commas, such as div, span and img. Other elements are removed with their content.")
+			.addText(text => text
+				.setValue((this.view.allowedTags || []).join(", "))
+				.onChange((value) => {
+					this.view.allowedTags = parseNameList(value);
+				}));
+
+		new Setting(customPolicyContainer)
+			.setName("Allowed attributes")
+			.setDesc("Attributes the view keeps, separated by commas, such as class and href. A name ending in an asterisk keeps every attribute starting with it.")
+			.addText(text => text
+				.setValue((this.view.allowedAttributes || []).join(", "))
+				.onChange((value) => {
+					this.view.allowedAttributes = parseNameList(value);
+				}));
 
+		if (this.view.imported) {
+			this.trustSetting = new Setting(contentEl)
+				.setName("Trust scripts")
+				.addButton(btn => btn
+					.setButtonText("Trust this template")
+					.onClick(async () => {
+						const template = await this.plugin.loadViewTemplate(this.view);
+						if (template === null) {
+							new Notice(`Template file "${this.view.templateFile}" does not exist.`);
+							return;
+						}
+						this.view.trustedTemplateHash = await hashTemplate(template);
+						await this.updateTrustStatus();
+					}));
+			void this.updateTrustStatus();
+		}
 
+		const buttonContainer = contentEl.createDiv('modal-button-container');
 
 		new ButtonComponent(buttonContainer)
 			.setButtonText("Save")
 			.setCta()
 			.onClick(async () => {
+				if (this.view.templateFile && !this.app.vault.getAbstractFileByPath(this.view.templateFile)) {
+					new Notice(`Template file "${this.view.templateFile}" does not exist yet.`);
+				}
 				this.plugin.settings.views[this.viewIndex] = this.view;
 				await this.plugin.saveSettings();
 				this.onSave();
@@ -303,6 +509,237 @@ class EditViewModal extends Modal {
 			});
 	}
 
+	/**
+	 * Shows whether the scripts of the imported view will run with its current template
+	 */
+	async updateTrustStatus() {
+		if (!this.trustSetting) return;
+		const template = await this.plugin.loadViewTemplate(this.view);
+		const trusted = template !== null && !!this.view.trustedTemplateHash
+			&& this.view.trustedTemplateHash === await hashTemplate(template);
+
+		if (trusted) {
+			this.trustSetting.setDesc("This view was imported. You trusted its current template, so its scripts run.");
+		} else if (this.view.trustedTemplateHash) {
+			this.trustSetting.setDesc("This view was imported. Its template changed since you trusted it, so its scripts are disabled until you review and trust it again.");
+		} else {
+			this.trustSetting.setDesc("This view was imported. Its scripts are disabled until you review the template and trust it.");
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Modal to add views shared from another vault, as copied with the copy button of a view
+ */
+class ImportViewsModal extends Modal {
+	plugin: CustomViewsPlugin;
+	onImport: () => void;
+	private source = "";
+
+	constructor(app: App, plugin: CustomViewsPlugin, onImport: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onImport = onImport;
+		this.setTitle("Import views");
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("cv-edit-view-modal");
+
+		contentEl.createEl("p", {
+			text: "Paste a copied view, or a list of views. Scripts of imported views are disabled until you trust their template in the view's settings."
+		});
+
+		const textarea = contentEl.createEl("textarea", { cls: "cv-textarea" });
+		textarea.addEventListener("input", () => {
+			this.source = textarea.value;
+		});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Import")
+			.setCta()
+			.onClick(async () => {
+				let views: ViewConfig[];
+				try {
+					views = parseSharedViews(this.source);
+				} catch (e) {
+					new Notice(`Could not import: ${e instanceof Error ? e.message : String(e)}`);
+					return;
+				}
+
+				this.plugin.settings.views.push(...views);
+				await this.plugin.saveSettings();
+				new Notice(views.length === 1 ? `Imported view "${views[0].name}".` : `Imported ${views.length} views.`);
+				this.onImport();
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Gets the parts of a view that are shared with other vaults, leaving out its id and trust
+ * @param view - The view to share
+ * @returns The shareable view
+ */
+function toSharedView(view: ViewConfig): Partial<ViewConfig> {
+	return {
+		name: view.name,
+		rules: view.rules,
+		template: view.template,
+		templateFile: view.templateFile,
+		scriptMode: view.scriptMode,
+		sanitizePolicy: view.sanitizePolicy,
+		allowedTags: view.allowedTags,
+		allowedAttributes: view.allowedAttributes
+	};
+}
+
+/**
+ * Parses views copied from another vault. The views are marked as imported and never carry trust over.
+ * @param source - JSON of a single view or a list of views
+ * @returns The views, with new ids
+ * @throws Error if the JSON is invalid or a view is missing its name, rules or template
+ */
+function parseSharedViews(source: string): ViewConfig[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(source);
+	} catch {
+		throw new Error("the text is not valid JSON.");
+	}
+
+	const items = Array.isArray(parsed) ? parsed as unknown[] : [parsed];
+	if (items.length === 0) throw new Error("the list of views is empty.");
+
+	return items.map((item, index) => {
+		if (!isPlainObject(item)) throw new Error(`view ${index + 1} is not an object.`);
+		const { name, rules, template, templateFile, scriptMode, sanitizePolicy, allowedTags, allowedAttributes } = item;
+		if (typeof name !== "string" || !name) throw new Error(`view ${index + 1} has no name.`);
+		if (!isPlainObject(rules) || rules.type !== "group") throw new Error(`view "${name}" has no rules.`);
+		if (!isRuleCondition(rules)) throw new Error(`view "${name}" has invalid rules.`);
+		if (typeof template !== "string" && typeof templateFile !== "string") throw new Error(`view "${name}" has no template.`);
+
+		return {
+			id: `${Date.now()}-${index}`,
+			name,
+			rules: rules as FilterGroup,
+			template: typeof template === "string" ? template : "",
+			templateFile: typeof templateFile === "string" ? templateFile : undefined,
+			scriptMode: scriptMode === "sandboxed" || scriptMode === "disabled" ? scriptMode : undefined,
+			sanitizePolicy: sanitizePolicy === "strict" || sanitizePolicy === "custom" ? sanitizePolicy : undefined,
+			allowedTags: toNameList(allowedTags),
+			allowedAttributes: toNameList(allowedAttributes),
+			imported: true
+		};
+	});
+}
+
+/**
+ * Reads a list of tag or attribute names from an imported view
+ */
+function toNameList(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	return parseNameList(value.filter((name): name is string => typeof name === "string").join(","));
+}
+
+class EditPartialModal extends Modal {
+	plugin: CustomViewsPlugin;
+	partial: PartialConfig;
+	/** Index of the partial being edited, or null for a new partial */
+	partialIndex: number | null;
+	onSave: () => void;
+
+	constructor(app: App, plugin: CustomViewsPlugin, partial: PartialConfig, partialIndex: number | null, onSave: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.partial = JSON.parse(JSON.stringify(partial)) as PartialConfig;
+		this.partialIndex = partialIndex;
+		this.onSave = onSave;
+		this.setTitle(partialIndex === null ? 'New partial' : 'Edit partial');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("cv-edit-view-modal");
+
+		new Setting(contentEl)
+			.setName("Partial name")
+			.setDesc("Views include the partial by this name, e.g. {{> header}}.")
+			.addText(text => {
+				text.setValue(this.partial.name)
+					.onChange((value) => {
+						this.partial.name = value.trim();
+					});
+				requestAnimationFrame(() => {
+					text.inputEl.select();
+				});
+			});
+
+		contentEl.createEl("h3", { text: "HTML template" });
+		const templateContainer = contentEl.createDiv({ cls: "cv-bases-template-container" });
+		const textarea = templateContainer.createEl("textarea", {
+			cls: "cv-textarea",
+			text: this.partial.template
+		});
+		textarea.addEventListener("input", (e: Event) => {
+			const target = e.target as HTMLTextAreaElement;
+			this.partial.template = target.value;
+		});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Save")
+			.setCta()
+			.onClick(async () => {
+				const partials = this.plugin.settings.partials;
+				if (!this.partial.name) {
+					new Notice("The partial needs a name.");
+					return;
+				}
+				if (partials.some((p, i) => p.name === this.partial.name && i !== this.partialIndex)) {
+					new Notice(`A partial named "${this.partial.name}" already exists.`);
+					return;
+				}
+
+				if (this.partialIndex === null) {
+					partials.push(this.partial);
+				} else {
+					partials[this.partialIndex] = this.partial;
+				}
+				await this.plugin.saveSettings();
+				this.onSave();
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
@@ -545,6 +982,8 @@ function removeFocusClasses(button: HTMLElement | null, parent: HTMLElement | nu
 	}
 }
 
+let dateSuggestionListCounter = 0;
+
 function createFilterValueInput(
 	container: HTMLElement,
 	type: PropertyType,
@@ -555,7 +994,8 @@ function createFilterValueInput(
 	const safeValue = value || "";
 	const needsMultiSelect = operator === "contains any of" || operator === "does not contain any of"
 		|| operator === "contains all of" || operator === "does not contain all of"
-		|| operator === "has tag" || operator === "does not have tag";
+		|| operator === "has tag" || operator === "does not have tag"
+		|| operator === "path matches any of" || operator === "path does not match any of";
 	if (needsMultiSelect) {
 		// Multi-select container for operators that accept multiple values
 		const multiSelectContainer = container.createDiv({ cls: "cv-multi-select-container", attr: { tabindex: "-1" } });
@@ -709,7 +1149,7 @@ function createFilterValueInput(
 		};
 
 		// Function to update pills (defined here to access navigation functions)
-		const updatePills = (): void => {
+		let updatePills = (): void => {
 			// Remove all pills (but keep the input)
 			const pills = multiSelectContainer.querySelectorAll(".multi-select-pill");
 			pills.forEach(pill => pill.remove());
@@ -741,21 +1181,74 @@ function createFilterValueInput(
 			updatePlaceholder();
 		};
 
+		// Path globs are checked like regex values, since an invalid one matches no path
+		if (operator === "path matches any of" || operator === "path does not match any of") {
+			const errorEl = container.createDiv({ cls: "cv-filter-input-error" });
+			const updateValidity = () => {
+				const error = values.map(getGlobError).find(e => e.length > 0) || "";
+				errorEl.setText(error);
+				errorEl.toggleClass("cv-hidden", error.length === 0);
+			};
+			const renderPills = updatePills;
+			updatePills = () => {
+				renderPills();
+				updateValidity();
+			};
+		}
+
 		// Initial render of pills
 		updatePills();
 		// Set initial placeholder
 		updatePlaceholder();
 
 		return multiSelectContainer;
-	} else if (type === "date" || type === "datetime") {
-		const input = container.createEl("input", {
-			type: type === "datetime" ? "datetime-local" : "date",
-			value: safeValue,
-			attr: {
-				max: type === "datetime" ? "9999-12-31T23:59" : "9999-12-31"
+	} else if (operator === "matches regex" || operator === "does not match regex" || operator === "path matches" || operator === "path does not match") {
+		const isRegex = operator === "matches regex" || operator === "does not match regex";
+		const input = container.createEl("input", { type: "text", value: safeValue });
+		input.addClass("metadata-input", "metadata-input-text");
+		input.placeholder = isRegex ? "Pattern or /pattern/flags" : "Folder/**/*.md";
+		const errorEl = container.createDiv({ cls: "cv-filter-input-error" });
+
+		const updateValidity = () => {
+			let error = "";
+			if (input.value.trim().length > 0) {
+				error = isRegex ? getPatternError(() => parseRegexValue(input.value)) : getGlobError(input.value);
 			}
+			input.toggleClass("cv-filter-input-invalid", error.length > 0);
+			input.setAttribute("aria-invalid", String(error.length > 0));
+			errorEl.setText(error);
+			errorEl.toggleClass("cv-hidden", error.length === 0);
+		};
+		updateValidity();
+
+		input.oninput = () => {
+			updateValidity();
+			onChange(input.value);
+		};
+		return input;
+	} else if (type === "date" || type === "datetime") {
+		// Text input so relative values ("today", "-7 days", "start of week") can be entered as well as dates
+		const listId = `cv-date-suggestions-${dateSuggestionListCounter++}`;
+		const dataList = container.createEl("datalist", { attr: { id: listId } });
+		RELATIVE_DATE_SUGGESTIONS.forEach(suggestion => {
+			dataList.createEl("option", { attr: { value: suggestion } });
 		});
-		input.oninput = () => onChange(input.value);
+
+		const input = container.createEl("input", { type: "text", value: safeValue, attr: { list: listId } });
+		input.addClass("metadata-input", "metadata-input-text");
+		input.placeholder = "Date, today, -7 days...";
+
+		const updateValidity = () => {
+			const isInvalid = input.value.trim().length > 0 && !resolveDateValue(input.value);
+			input.toggleClass("cv-filter-input-invalid", isInvalid);
+			input.setAttribute("aria-invalid", String(isInvalid));
+		};
+		updateValidity();
+
+		input.oninput = () => {
+			updateValidity();
+			onChange(input.value);
+		};
 		return input;
 	} else if (type === "number") {
 		const input = container.createEl("input", { type: "number", value: safeValue });
@@ -770,6 +1263,29 @@ function createFilterValueInput(
 	}
 }
 
+/**
+ * Runs a pattern parser and returns its error message
+ * @param parse - Parses the pattern, throwing if it is invalid
+ * @returns The error message, or an empty string if the pattern is valid
+ */
+function getPatternError(parse: () => unknown): string {
+	try {
+		parse();
+		return "";
+	} catch (e) {
+		return e instanceof Error ? e.message : String(e);
+	}
+}
+
+/**
+ * Checks a path glob, which may start with "!" to exclude paths
+ * @param glob - The glob
+ * @returns The error message, or an empty string if the glob is valid
+ */
+function getGlobError(glob: string): string {
+	return getPatternError(() => globToRegExp(glob.trim().replace(/^!/, "")));
+}
+
 function createPill(container: HTMLElement, value: string, onRemove: () => void, onCreated?: (pill: HTMLElement) => void): void {
 	const pill = container.createDiv({ cls: "multi-select-pill", attr: { tabindex: "0" } });
 	pill.createDiv({ cls: "multi-select-pill-content", text: value });
@@ -828,11 +1344,15 @@ class FilterBuilder {
 	getPropertyLabel(key: string): string {
 		const labelMap: Record<string, string> = {
 			"file.name": "file name",
+			"file.basename": "file basename",
 			"file.path": "file path",
 			"file.folder": "folder",
 			"file.size": "file size",
 			"file.ctime": "created time",
-			"file.mtime": "modified time"
+			"file.mtime": "modified time",
+			"file.tasks": "task count",
+			"file.completion": "task completion (%)",
+			"file.sections": "section count"
 		};
 		return labelMap[key] || key;
 	}
@@ -858,11 +1378,15 @@ class FilterBuilder {
 		const builtInProps: Array<[string, PropertyType]> = [
 			["file", "file"],
 			["file.name", "text"],
+			["file.basename", "text"],
 			["file.path", "text"],
 			["file.folder", "text"],
 			["file.ctime", "date"],
 			["file.mtime", "date"],
 			["file.size", "number"],
+			["file.tasks", "number"],
+			["file.completion", "number"],
+			["file.sections", "number"],
 			["file tags", "list"],
 			["aliases", "list"]
 		];
@@ -872,18 +1396,26 @@ class FilterBuilder {
 			propMap.set(key, type);
 		}
 
-		// Scan frontmatter properties
+		// Scan frontmatter properties, walking nested objects so "book.author" is offered as well
+		const addProperties = (record: Record<string, unknown>, prefix: string) => {
+			for (const key of Object.keys(record)) {
+				if (!prefix && (key === "position" || key === "tags" || key === "aliases")) continue;
+				const val = record[key];
+				const path = prefix ? `${prefix}.${key}` : key;
+				if (isPlainObject(val)) {
+					addProperties(val, path);
+					continue;
+				}
+				if (propMap.has(path) && propMap.get(path) !== "unknown") continue;
+				propMap.set(path, inferPropertyType(val));
+			}
+		};
+
 		const files = app.vault.getMarkdownFiles();
 		for (const file of files) {
 			const cache = app.metadataCache.getFileCache(file);
 			if (cache?.frontmatter) {
-				for (const key of Object.keys(cache.frontmatter)) {
-					if (key === "position" || key === "tags" || key === "aliases") continue;
-					if (propMap.has(key) && propMap.get(key) !== "unknown") continue;
-					const val = cache.frontmatter[key] as string | number | boolean | string[] | undefined;
-					const type = this.inferType(val);
-					propMap.set(key, type);
-				}
+				addProperties(cache.frontmatter as Record<string, unknown>, "");
 			}
 		}
 
@@ -912,18 +1444,6 @@ class FilterBuilder {
 		return [...builtIn, ...custom];
 	}
 
-	inferType(val: unknown): PropertyType {
-		if (val === null || val === undefined) return "unknown";
-		if (Array.isArray(val)) return "list";
-		if (typeof val === "number") return "number";
-		if (typeof val === "boolean") return "checkbox";
-		if (typeof val === "string") {
-			if (/^\d{4}-\d{2}-\d{2}$/.test(val)) return "date";
-			if (/^\d{4}-\d{2}-\d{2}T/.test(val)) return "datetime";
-		}
-		return "text";
-	}
-
 	getPropertyType(key: string): PropertyType {
 		const def = this.availableProperties.find(p => p.key === key);
 		return def ? def.type : "text";
@@ -1133,6 +1653,50 @@ class FilterBuilder {
 
 		setupComboboxButtonHandlers(operatorBtn, statement, openOperatorModal);
 
+		if (MATCH_MODE_OPERATORS.includes(filter.operator)) {
+			const currentModeIndex = Math.max(0, MATCH_MODES.findIndex(m => m.mode === (filter.matchMode || "exact")));
+			const currentMode = MATCH_MODES[currentModeIndex];
+			const matchModeBtn = expression.createDiv({
+				cls: "clickable-icon cv-filter-match-mode",
+				attr: { tabindex: "0", "aria-label": `${currentMode.label} (click to change)` }
+			});
+			setIcon(matchModeBtn, currentMode.icon);
+			matchModeBtn.toggleClass("is-active", currentMode.mode !== "exact");
+
+			const cycleMatchMode = () => {
+				const nextMode = MATCH_MODES[(currentModeIndex + 1) % MATCH_MODES.length].mode;
+				const matchMode = nextMode === "exact" ? undefined : nextMode;
+				// If this is a placeholder, add it to the conditions array first
+				if (isPlaceholder && !placeholderAdded) {
+					parentGroup.conditions.push({ ...filter, matchMode });
+					placeholderAdded = true;
+				} else if (isPlaceholder && placeholderAdded) {
+					// Update the filter in the conditions array (it's the last one we added)
+					const conditionIndex = parentGroup.conditions.length - 1;
+					const conditionFilter = parentGroup.conditions[conditionIndex];
+					if (conditionIndex >= 0 && conditionFilter.type === "filter") {
+						conditionFilter.matchMode = matchMode;
+					}
+				} else {
+					filter.matchMode = matchMode;
+				}
+
+				this.onSave();
+				this.onRefresh();
+			};
+
+			matchModeBtn.onclick = (e) => {
+				e.stopPropagation();
+				cycleMatchMode();
+			};
+			matchModeBtn.onkeydown = (e) => {
+				if (e.key === " " || e.key === "Enter") {
+					e.preventDefault();
+					cycleMatchMode();
+				}
+			};
+		}
+
 		const handleDelete = () => {
 			if (isPlaceholder) {
 				// For placeholder, just refresh to show the default again
@@ -1144,10 +1708,11 @@ class FilterBuilder {
 			}
 		};
 
-		if (!["is empty", "is not empty"].includes(filter.operator)) {
+		if (!VALUELESS_OPERATORS.includes(filter.operator)) {
 			const rhs = expression.createDiv({ cls: "cv-filter-rhs-container metadata-property-value" });
+			const valueType: PropertyType = NUMERIC_VALUE_OPERATORS.includes(filter.operator) ? "number" : currentType;
 
-			createFilterValueInput(rhs, currentType, filter.value, (val) => {
+			createFilterValueInput(rhs, valueType, filter.value, (val) => {
 				// If this is a placeholder, add it to the conditions array first
 				if (isPlaceholder && !placeholderAdded) {
 					parentGroup.conditions.push({ ...filter, value: val });
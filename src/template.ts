@@ -0,0 +1,670 @@
+/**
+ * Parsing and evaluation of the template language: {{placeholders}}, {{#if}}, {{#each}} and {{#query}} blocks,
+ * {{> partials}} and layout inheritance with {{extends}} and {{#block}}.
+ * The renderer walks the parsed nodes; this module knows nothing about files or the DOM.
+ */
+
+import { FilterGroup } from "./types";
+import { isRuleCondition } from "./matcher";
+
+/**
+ * Thrown when a template cannot be parsed, e.g. for an unclosed block.
+ */
+export class TemplateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TemplateError";
+	}
+}
+
+export interface TextNode {
+	type: "text";
+	text: string;
+}
+
+export interface ValueNode {
+	type: "value";
+	/** The property path, without the file. prefix */
+	path: string;
+	isFileProperty: boolean;
+	filterChain?: string;
+}
+
+export interface IfNode {
+	type: "if";
+	condition: Expression;
+	then: TemplateNode[];
+	else: TemplateNode[];
+}
+
+export interface EachNode {
+	type: "each";
+	/** The path of the list to iterate, without the file. prefix */
+	path: string;
+	isFileProperty: boolean;
+	/** The name each item is available under inside the block ("this" if not given) */
+	alias: string;
+	body: TemplateNode[];
+	/** Rendered instead of the body when the list is missing or empty */
+	else: TemplateNode[];
+}
+
+export interface PartialNode {
+	type: "partial";
+	/** The name of the partial, as configured in settings */
+	name: string;
+	/** Values passed to the partial, available inside it as variables */
+	params: Record<string, Expression>;
+}
+
+export interface ExtendsNode {
+	type: "extends";
+	/** The name of the layout (a partial) this template fills in */
+	name: string;
+}
+
+export interface BlockNode {
+	type: "block";
+	name: string;
+	/** The block's content; in a layout this is the default used when no child overrides it */
+	body: TemplateNode[];
+}
+
+export interface SectionNode {
+	type: "section";
+	/** The text of the heading whose section is rendered */
+	heading: string;
+}
+
+export interface QueryNode {
+	type: "query";
+	/** The rules other notes must match, in the same shape as a view's rules */
+	where: FilterGroup;
+	/** Evaluates to a sort specification such as "file.mtime desc, title" */
+	sort?: Expression;
+	/** Evaluates to the maximum number of notes to list */
+	limit?: Expression;
+	/** The name each matching note is available under inside the block ("this" if not given) */
+	alias: string;
+	body: TemplateNode[];
+	/** Rendered instead of the body when no note matches */
+	else: TemplateNode[];
+}
+
+export type TemplateNode = TextNode | ValueNode | IfNode | EachNode | PartialNode | ExtendsNode | BlockNode | SectionNode | QueryNode;
+
+/**
+ * A parsed condition, as used by {{#if}}
+ */
+export type Expression =
+	| { type: "literal", value: string | number | boolean | null }
+	| { type: "path", path: string, isFileProperty: boolean }
+	| { type: "not", operand: Expression }
+	| { type: "logical", operator: "and" | "or", left: Expression, right: Expression }
+	| { type: "compare", operator: ComparisonOperator, left: Expression, right: Expression };
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+// A property path like book.author or ratings[0].score, optionally following links into other notes with -> (author->born)
+const PATH_PATTERN = "@?[a-zA-Z0-9_-]+(?:\\.[a-zA-Z0-9_-]+|\\[\\d+\\])*(?:->(?:file\\.)?[a-zA-Z0-9_-]+(?:\\.[a-zA-Z0-9_-]+|\\[\\d+\\])*)*";
+const PATH_REGEX = new RegExp(`^(file\\.)?(${PATH_PATTERN})$`);
+
+// Matches both {{file.property}} and {{property}} patterns, with an optional filter chain
+const VALUE_REGEX = new RegExp(`^(file\\.)?(${PATH_PATTERN})(?:\\s*\\|([\\s\\S]*))?$`);
+
+// Matches the header of {{#each list}} and {{#each list as item}}
+const EACH_REGEX = new RegExp(`^(file\\.)?(${PATH_PATTERN})(?:\\s+as\\s+([a-zA-Z_][a-zA-Z0-9_-]*))?$`);
+
+// Matches {{> name key="value"}}; names containing spaces can be quoted
+const PARTIAL_REGEX = /^>\s*(?:"([^"]+)"|'([^']+)'|([^\s"']+))([\s\S]*)$/;
+const PARAM_REGEX = /\s*([a-zA-Z_][a-zA-Z0-9_-]*)\s*=\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\s"']+)/g;
+
+// Matches {{extends "layout"}}
+const EXTENDS_REGEX = /^extends\s+(?:"([^"]+)"|'([^']+)'|([^\s"']+))$/;
+// Matches {{#block name}}
+const BLOCK_REGEX = /^#block\s+([a-zA-Z0-9_-]+)$/;
+
+// Matches the header of {{#query where='...' sort="..." limit=5 as item}}
+const QUERY_REGEX = /^([\s\S]*?)(?:\s+as\s+([a-zA-Z_][a-zA-Z0-9_-]*))?\s*$/;
+const QUERY_PARAMS = ["where", "sort", "limit"];
+
+// Matches {{file.section:"Heading"}}
+const SECTION_REGEX = /^file\.section\s*:\s*(?:"([^"]*)"|'([^']*)')$/;
+
+type Token = { kind: "text", text: string } | { kind: "tag", content: string, source: string };
+
+/**
+ * Splits a template into literal text and {{...}} tags.
+ * @param source - The template source
+ * @returns The tokens, in order
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+
+	while (position < source.length) {
+		const start = source.indexOf("{{", position);
+		if (start === -1) break;
+		const end = findTagEnd(source, start + 2);
+		if (end === -1) break;
+
+		if (start > position) tokens.push({ kind: "text", text: source.substring(position, start) });
+		tokens.push({ kind: "tag", content: source.substring(start + 2, end).trim(), source: source.substring(start, end + 2) });
+		position = end + 2;
+	}
+
+	if (position < source.length) tokens.push({ kind: "text", text: source.substring(position) });
+	return tokens;
+}
+
+/**
+ * Finds the closing braces of a tag, skipping over quoted strings so arguments like where='{...}' can contain braces
+ * @param source - The template source
+ * @param from - The position just after the opening braces
+ * @returns The position of the closing braces, or -1 if the tag is not closed
+ */
+function findTagEnd(source: string, from: number): number {
+	for (let i = from; i < source.length - 1; i++) {
+		const char = source[i];
+		if (char === "}" && source[i + 1] === "}") return i;
+		if (char === '"' || char === "'") {
+			let close = i + 1;
+			while (close < source.length && source[close] !== char) {
+				close += source[close] === "\\" ? 2 : 1;
+			}
+			// An unbalanced quote (e.g. an apostrophe in text) is not treated as a string
+			if (close >= source.length) return source.indexOf("}}", from);
+			i = close;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Parses a template into nodes.
+ * @param source - The template source
+ * @returns The parsed nodes
+ * @throws TemplateError if blocks are not properly opened and closed, or a condition is invalid
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+	const tokens = tokenize(source);
+	let index = 0;
+
+	// Parses nodes until the {{else}} or closing tag of the enclosing block, or the end of the template
+	const parseNodes = (block: string | null): { nodes: TemplateNode[], terminator: string | null } => {
+		const nodes: TemplateNode[] = [];
+
+		while (index < tokens.length) {
+			const token = tokens[index++];
+			if (token.kind === "text") {
+				nodes.push({ type: "text", text: token.text });
+				continue;
+			}
+
+			const content = token.content;
+			if (block && isBlockTerminator(content, block)) {
+				return { nodes, terminator: content };
+			}
+
+			if (content.startsWith("#if ")) {
+				nodes.push(parseIf(content.substring(4)));
+			} else if (content.startsWith("#each ")) {
+				nodes.push(parseEach(content.substring(6)));
+			} else if (content.startsWith("#query ")) {
+				nodes.push(parseQuery(content.substring(7)));
+			} else if (content.startsWith(">")) {
+				nodes.push(parsePartial(content));
+			} else if (SECTION_REGEX.test(content)) {
+				const match = content.match(SECTION_REGEX) as RegExpMatchArray;
+				nodes.push({ type: "section", heading: match[1] ?? match[2] });
+			} else if (content.startsWith("#block")) {
+				nodes.push(parseBlock(content));
+			} else if (/^extends\s/.test(content)) {
+				const match = content.match(EXTENDS_REGEX);
+				if (!match) throw new TemplateError(`Invalid "{{${content}}}", expected e.g. {{extends "card-base"}}`);
+				if (block) throw new TemplateError("{{extends}} must be at the top level of a template, not inside a block");
+				if (nodes.some(node => node.type === "extends")) throw new TemplateError("A template can only extend one layout");
+				nodes.push({ type: "extends", name: match[1] || match[2] || match[3] });
+			} else if (/^(else\b|\/)/.test(content)) {
+				throw new TemplateError(block
+					? `Unexpected {{${content}}} inside {{#${block}}}`
+					: `Unexpected {{${content}}} without a matching opening block`);
+			} else {
+				const match = content.match(VALUE_REGEX);
+				if (match) {
+					nodes.push({
+						type: "value",
+						path: match[2],
+						isFileProperty: match[1] === "file.",
+						filterChain: match[3]?.trim() || undefined
+					});
+				} else {
+					// Not a placeholder we know; keep it as literal text
+					nodes.push({ type: "text", text: token.source });
+				}
+			}
+		}
+
+		if (block) {
+			throw new TemplateError(`Unclosed block: a {{#${block}}} is missing its {{/${block}}}`);
+		}
+		return { nodes, terminator: null };
+	};
+
+	const parseIf = (conditionSource: string): IfNode => {
+		const condition = parseExpression(conditionSource);
+		const thenPart = parseNodes("if");
+		const node: IfNode = { type: "if", condition, then: thenPart.nodes, else: [] };
+
+		const terminator = thenPart.terminator || "";
+		if (terminator.startsWith("else if ")) {
+			// {{else if ...}} chains into a nested if that shares the closing {{/if}}
+			node.else = [parseIf(terminator.substring(8))];
+		} else if (terminator === "else") {
+			node.else = parseElse("if");
+		}
+		return node;
+	};
+
+	const parseEach = (header: string): EachNode => {
+		const match = header.trim().match(EACH_REGEX);
+		if (!match) {
+			throw new TemplateError(`Invalid loop "{{#each ${header.trim()}}}", expected e.g. {{#each cast as actor}}`);
+		}
+
+		const body = parseNodes("each");
+		const node: EachNode = {
+			type: "each",
+			path: match[2],
+			isFileProperty: match[1] === "file.",
+			alias: match[3] || "this",
+			body: body.nodes,
+			else: []
+		};
+		if (body.terminator === "else") {
+			node.else = parseElse("each");
+		}
+		return node;
+	};
+
+	const parseQuery = (header: string): QueryNode => {
+		const match = header.trim().match(QUERY_REGEX) as RegExpMatchArray;
+		const example = `expected e.g. {{#query where='{"type":"filter","field":"author","operator":"is","value":"\${author}"}' sort="file.mtime desc" limit=5 as book}}`;
+		const params = parseParams(match[1], example);
+
+		for (const key of Object.keys(params)) {
+			if (!QUERY_PARAMS.includes(key)) throw new TemplateError(`Unknown query option "${key}", ${example}`);
+		}
+		const where = params.where;
+		if (!where || where.type !== "literal" || typeof where.value !== "string") {
+			throw new TemplateError(`A query needs a quoted where='...' rule set, ${example}`);
+		}
+
+		const body = parseNodes("query");
+		const node: QueryNode = {
+			type: "query",
+			where: parseQueryRules(where.value),
+			sort: params.sort,
+			limit: params.limit,
+			alias: match[2] || "this",
+			body: body.nodes,
+			else: []
+		};
+		if (body.terminator === "else") {
+			node.else = parseElse("query");
+		}
+		return node;
+	};
+
+	const parseBlock = (header: string): BlockNode => {
+		const match = header.match(BLOCK_REGEX);
+		if (!match) throw new TemplateError(`Invalid block "{{${header}}}", expected e.g. {{#block body}}`);
+
+		const body = parseNodes("block");
+		if (body.terminator !== "/block") {
+			throw new TemplateError(`Unexpected {{${body.terminator}}} in {{#block ${match[1]}}}`);
+		}
+		return { type: "block", name: match[1], body: body.nodes };
+	};
+
+	// Parses the {{else}} branch of a block, which must be followed by the block's closing tag
+	const parseElse = (block: string): TemplateNode[] => {
+		const elsePart = parseNodes(block);
+		if (elsePart.terminator !== `/${block}`) {
+			throw new TemplateError(`Unexpected {{${elsePart.terminator}}} after {{else}} in {{#${block}}}`);
+		}
+		return elsePart.nodes;
+	};
+
+	return parseNodes(null).nodes;
+}
+
+/**
+ * Parses a partial include such as `> header title="Reviews" rating=score`
+ * @param content - The tag content, without braces
+ * @returns The parsed partial node
+ * @throws TemplateError if a parameter is invalid
+ */
+function parsePartial(content: string): PartialNode {
+	const match = content.match(PARTIAL_REGEX);
+	if (!match) throw new TemplateError(`Invalid partial "{{${content}}}", expected e.g. {{> header}}`);
+
+	const name = match[1] || match[2] || match[3];
+	const params = parseParams(match[4], `expected e.g. {{> ${name} title="Reviews"}}`);
+
+	return { type: "partial", name, params };
+}
+
+/**
+ * Parses parameters such as `title="Reviews" rating=score limit=5`
+ * @param source - The parameters
+ * @param example - How the tag should look, for the error message
+ * @returns The parsed value of each parameter
+ * @throws TemplateError if a parameter is invalid
+ */
+function parseParams(source: string, example: string): Record<string, Expression> {
+	const params: Record<string, Expression> = {};
+
+	PARAM_REGEX.lastIndex = 0;
+	let consumed = 0;
+	let param;
+	while ((param = PARAM_REGEX.exec(source)) !== null && param.index === consumed) {
+		params[param[1]] = parseExpression(param[2]);
+		consumed = PARAM_REGEX.lastIndex;
+	}
+	if (source.substring(consumed).trim()) {
+		throw new TemplateError(`Invalid parameters "${source.trim()}", ${example}`);
+	}
+
+	return params;
+}
+
+/**
+ * Parses the rules of a query: a filter group as used by view rules, a single filter, or a list of filters that must all match
+ * @param source - The rules as JSON
+ * @returns The rules as a filter group
+ * @throws TemplateError if the rules are not valid JSON or not filters
+ */
+function parseQueryRules(source: string): FilterGroup {
+	let rules: unknown;
+	try {
+		rules = JSON.parse(source);
+	} catch {
+		throw new TemplateError(`The where rules of a query are not valid JSON: ${source}`);
+	}
+
+	if (Array.isArray(rules) && rules.every(isRuleCondition)) {
+		return { type: "group", operator: "AND", conditions: rules };
+	}
+	if (isRuleCondition(rules)) {
+		return rules.type === "group" ? rules : { type: "group", operator: "AND", conditions: [rules] };
+	}
+	throw new TemplateError(`The where rules of a query must be filters like {"type":"filter","field":"status","operator":"is","value":"done"}`);
+}
+
+/**
+ * Resolves layout inheritance: if the template extends a layout, the layout (and its own parents) is rendered
+ * instead, with {{#block}}s replaced by the most specific override along the chain.
+ * @param nodes - The parsed template
+ * @param getLayout - Looks up the source of a layout by name, or returns null if there is none
+ * @returns The nodes to render, without extends nodes
+ * @throws TemplateError if a layout is missing, cannot be parsed, or the chain contains a cycle
+ */
+export function resolveLayout(nodes: TemplateNode[], getLayout: (name: string) => string | null): TemplateNode[] {
+	const overrides = new Map<string, TemplateNode[]>();
+	const chain: string[] = [];
+	let current = nodes;
+
+	for (;;) {
+		// Children are visited first, so the first definition of a block is the most specific one
+		collectBlocks(current, overrides);
+
+		const extendsNode = current.find((node): node is ExtendsNode => node.type === "extends");
+		if (!extendsNode) break;
+
+		if (chain.includes(extendsNode.name)) {
+			throw new TemplateError(`Layouts extend each other in a cycle (${[...chain, extendsNode.name].join(" → ")})`);
+		}
+		chain.push(extendsNode.name);
+
+		const source = getLayout(extendsNode.name);
+		if (source === null) throw new TemplateError(`Missing layout "${extendsNode.name}"`);
+		try {
+			current = parseTemplate(source);
+		} catch (error) {
+			if (!(error instanceof TemplateError)) throw error;
+			throw new TemplateError(`Error in layout "${extendsNode.name}": ${error.message}`);
+		}
+	}
+
+	return fillBlocks(current, overrides);
+}
+
+/**
+ * Records the content of every block in a template, keeping definitions that were already recorded
+ * @param nodes - The parsed template
+ * @param blocks - The block contents by name
+ */
+function collectBlocks(nodes: TemplateNode[], blocks: Map<string, TemplateNode[]>) {
+	for (const node of nodes) {
+		if (node.type === "block") {
+			if (!blocks.has(node.name)) blocks.set(node.name, node.body);
+			collectBlocks(node.body, blocks);
+		} else if (node.type === "if") {
+			collectBlocks(node.then, blocks);
+			collectBlocks(node.else, blocks);
+		} else if (node.type === "each" || node.type === "query") {
+			collectBlocks(node.body, blocks);
+			collectBlocks(node.else, blocks);
+		}
+	}
+}
+
+/**
+ * Replaces the content of each block with its override
+ * @param nodes - The parsed layout
+ * @param blocks - The block contents by name
+ * @param filling - Blocks being filled, so a block nested in its own override keeps its default content
+ * @returns The layout with blocks filled in
+ */
+function fillBlocks(nodes: TemplateNode[], blocks: Map<string, TemplateNode[]>, filling: string[] = []): TemplateNode[] {
+	return nodes.map((node): TemplateNode => {
+		if (node.type === "block") {
+			const override = filling.includes(node.name) ? node.body : blocks.get(node.name) || node.body;
+			return { ...node, body: fillBlocks(override, blocks, [...filling, node.name]) };
+		} else if (node.type === "if") {
+			return { ...node, then: fillBlocks(node.then, blocks, filling), else: fillBlocks(node.else, blocks, filling) };
+		} else if (node.type === "each" || node.type === "query") {
+			return { ...node, body: fillBlocks(node.body, blocks, filling), else: fillBlocks(node.else, blocks, filling) };
+		}
+		return node;
+	});
+}
+
+/**
+ * Checks whether a tag ends the current branch of a block
+ * @param content - The tag content, without braces
+ * @param block - The block being parsed, e.g. "if" or "each"
+ * @returns True for the block's {{else}} and closing tags
+ */
+function isBlockTerminator(content: string, block: string): boolean {
+	if (content === "else" || content === `/${block}`) return true;
+	return block === "if" && content.startsWith("else if ");
+}
+
+/**
+ * Parses a condition such as `rating`, `!rating`, `status == "done"` or `rating >= 8 and not draft`.
+ * @param source - The condition source
+ * @returns The parsed expression
+ * @throws TemplateError if the condition is invalid
+ */
+export function parseExpression(source: string): Expression {
+	const tokenRegex = /\s*(==|!=|<=|>=|<|>|!|\(|\)|&&|\|\||"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|(?:->|[^\s()!<>="'])+)/g;
+	const tokens: string[] = [];
+	let consumed = 0;
+	let match;
+	while ((match = tokenRegex.exec(source)) !== null && match.index === consumed) {
+		tokens.push(match[1]);
+		consumed = tokenRegex.lastIndex;
+	}
+	if (source.substring(consumed).trim()) {
+		throw new TemplateError(`Invalid condition "${source}"`);
+	}
+
+	let position = 0;
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+
+	const parseOr = (): Expression => {
+		let left = parseAnd();
+		while (peek() === "or" || peek() === "||") {
+			next();
+			left = { type: "logical", operator: "or", left, right: parseAnd() };
+		}
+		return left;
+	};
+
+	const parseAnd = (): Expression => {
+		let left = parseNot();
+		while (peek() === "and" || peek() === "&&") {
+			next();
+			left = { type: "logical", operator: "and", left, right: parseNot() };
+		}
+		return left;
+	};
+
+	const parseNot = (): Expression => {
+		if (peek() === "!" || peek() === "not") {
+			next();
+			return { type: "not", operand: parseNot() };
+		}
+		return parseComparison();
+	};
+
+	const parseComparison = (): Expression => {
+		const left = parseOperand();
+		const operator = peek();
+		if (operator === "==" || operator === "!=" || operator === "<" || operator === "<=" || operator === ">" || operator === ">=") {
+			next();
+			return { type: "compare", operator, left, right: parseOperand() };
+		}
+		return left;
+	};
+
+	const parseOperand = (): Expression => {
+		const token = next();
+		if (token === undefined) throw new TemplateError(`Incomplete condition "${source}"`);
+
+		if (token === "(") {
+			const inner = parseOr();
+			if (next() !== ")") throw new TemplateError(`Missing ")" in condition "${source}"`);
+			return inner;
+		}
+		if (/^(["'])[\s\S]*\1$/.test(token)) {
+			return { type: "literal", value: token.slice(1, -1).replace(/\\(.)/g, "$1") };
+		}
+		if (token === "true" || token === "false") return { type: "literal", value: token === "true" };
+		if (token === "null") return { type: "literal", value: null };
+		if (/^-?\d+(\.\d+)?$/.test(token)) return { type: "literal", value: parseFloat(token) };
+
+		const pathMatch = token.match(PATH_REGEX);
+		if (!pathMatch) throw new TemplateError(`Unexpected "${token}" in condition "${source}"`);
+		return { type: "path", path: pathMatch[2], isFileProperty: pathMatch[1] === "file." };
+	};
+
+	const expression = parseOr();
+	if (position < tokens.length) {
+		throw new TemplateError(`Unexpected "${tokens[position]}" in condition "${source}"`);
+	}
+	return expression;
+}
+
+/**
+ * Evaluates a condition.
+ * @param expression - The parsed condition
+ * @param resolve - Resolves a property path to its value, as placeholders do
+ * @returns The value of the expression; use isTruthy to test it
+ */
+export function evaluateExpression(
+	expression: Expression,
+	resolve: (path: string, isFileProperty: boolean) => unknown
+): unknown {
+	switch (expression.type) {
+		case "literal":
+			return expression.value;
+		case "path":
+			return resolve(expression.path, expression.isFileProperty);
+		case "not":
+			return !isTruthy(evaluateExpression(expression.operand, resolve));
+		case "logical": {
+			const left = isTruthy(evaluateExpression(expression.left, resolve));
+			if (expression.operator === "and" && !left) return false;
+			if (expression.operator === "or" && left) return true;
+			return isTruthy(evaluateExpression(expression.right, resolve));
+		}
+		case "compare":
+			return compareValues(
+				evaluateExpression(expression.left, resolve),
+				expression.operator,
+				evaluateExpression(expression.right, resolve)
+			);
+	}
+}
+
+/**
+ * Decides whether a value counts as true in a condition.
+ * Missing values, empty strings, empty lists, false and 0 are false.
+ * @param value - The value to test
+ * @returns True if the value counts as true
+ */
+export function isTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	if (typeof value === "string") return value.trim().length > 0;
+	return !!value;
+}
+
+/**
+ * Compares two values. Numbers (and numeric strings) compare numerically, everything else as text,
+ * so ISO dates compare chronologically. A list equals a value when it contains it.
+ * @param left - The left-hand value
+ * @param operator - The comparison operator
+ * @param right - The right-hand value
+ * @returns The result of the comparison
+ */
+function compareValues(left: unknown, operator: ComparisonOperator, right: unknown): boolean {
+	if (Array.isArray(left) && (operator === "==" || operator === "!=")) {
+		const contains = left.some(item => compareValues(item, "==", right));
+		return operator === "==" ? contains : !contains;
+	}
+
+	const leftNumber = toComparableNumber(left);
+	const rightNumber = toComparableNumber(right);
+	let order: number;
+	if (leftNumber !== null && rightNumber !== null) {
+		order = leftNumber - rightNumber;
+	} else {
+		const leftText = left === null || left === undefined ? "" : String(left);
+		const rightText = right === null || right === undefined ? "" : String(right);
+		order = leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+	}
+
+	switch (operator) {
+		case "==": return order === 0;
+		case "!=": return order !== 0;
+		case "<": return order < 0;
+		case "<=": return order <= 0;
+		case ">": return order > 0;
+		case ">=": return order >= 0;
+	}
+}
+
+/**
+ * Converts numbers and numeric strings to numbers for comparison
+ * @param value - The value to convert
+ * @returns The number, or null if the value is not numeric
+ */
+function toComparableNumber(value: unknown): number | null {
+	if (typeof value === "number") return value;
+	if (typeof value === "string" && value.trim() && isFinite(Number(value))) return Number(value);
+	return null;
+}
@@ -4,21 +4,45 @@ export type FilterOperator =
 	| "contains all of" | "does not contain all of"
 	| "is" | "is not"
 	| "starts with" | "ends with"
+	| "matches regex" | "does not match regex"
 	| "is empty" | "is not empty"
 	| "links to" | "does not link to"
+	| "links to any note in folder" | "does not link to any note in folder"
+	| "is linked from" | "is not linked from"
+	| "has at least N backlinks" | "has no backlinks"
 	| "in folder" | "is not in folder"
+	| "path matches" | "path does not match"
+	| "path matches any of" | "path does not match any of"
 	| "has tag" | "does not have tag"
 	| "has property" | "does not have property"
+	| "has heading" | "does not have heading"
+	| "has unfinished tasks" | "has no unfinished tasks"
+	| "embeds" | "does not embed"
+	| "=" | "≠"
+	| "<" | "≤"
+	| ">" | "≥"
 	| "on" | "not on"
 	| "before" | "on or before"
 	| "after" | "on or after";
 
+/**
+ * The type of a property, as inferred from its values
+ */
+export type PropertyType = "text" | "number" | "date" | "datetime" | "list" | "checkbox" | "file" | "unknown";
+
 export type FilterConjunction = "AND" | "OR" | "NOR";
+
+/**
+ * How text is compared by a filter. Missing means "exact" (case-sensitive).
+ */
+export type MatchMode = "exact" | "ignore case" | "ignore case and diacritics";
+
 export interface Filter {
 	type: "filter";
 	field: string;
 	operator: FilterOperator;
 	value?: string;
+	matchMode?: MatchMode;
 }
 
 export interface FilterGroup {
@@ -27,9 +51,48 @@ export interface FilterGroup {
 	conditions: (Filter | FilterGroup)[];
 }
 
+/**
+ * How the scripts of a view's template run:
+ * - "enabled": in the note, with access to the app through the `cv` context
+ * - "sandboxed": in a sandboxed iframe that reaches the note only through messages
+ * - "disabled": not at all
+ */
+export type ScriptMode = "enabled" | "sandboxed" | "disabled";
+
+/**
+ * Which HTML a rendered view keeps:
+ * - "standard": removes embedded frames and objects, and script markup unless scripts run in the note
+ * - "strict": keeps only basic formatting, tables, images, links and form inputs, without scripts or styles
+ * - "custom": keeps only the tags and attributes the view lists
+ */
+export type SanitizePolicy = "standard" | "strict" | "custom";
+
 export interface ViewConfig {
 	id: string;
 	name: string;
 	rules: FilterGroup;
 	template: string;
+	/** Path of a vault file (e.g. `_views/book.html`) holding the template; used instead of `template` when set */
+	templateFile?: string;
+	/** How the template's scripts run; missing means "enabled" */
+	scriptMode?: ScriptMode;
+	/** Set on views imported from elsewhere; their scripts stay disabled until the user trusts the template */
+	imported?: boolean;
+	/** SHA-256 hash of the template the user trusted the scripts of; only used for imported views */
+	trustedTemplateHash?: string;
+	/** Which HTML the rendered view keeps; missing means "standard" */
+	sanitizePolicy?: SanitizePolicy;
+	/** Tags the "custom" policy keeps, e.g. "div" */
+	allowedTags?: string[];
+	/** Attributes the "custom" policy keeps, e.g. "class"; "data-*" keeps every attribute with the prefix */
+	allowedAttributes?: string[];
+}
+
+/**
+ * A named piece of template markup that views can include with {{> name}}.
+ */
+export interface PartialConfig {
+	id: string;
+	name: string;
+	template: string;
 }
@@ -0,0 +1,129 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import { HtmlContextTracker, escapeAttributeValue, escapeScriptString, toScriptLiteral } from "../src/html";
+
+function track(html: string): HtmlContextTracker {
+	const tracker = new HtmlContextTracker();
+	tracker.feed(html);
+	return tracker;
+}
+
+function contextAfter(html: string): string {
+	return track(html).getContext();
+}
+
+// Escapes a value the way the renderer does when it is inserted after the given template text
+function insertAttribute(html: string, value: string): string {
+	const tracker = track(html);
+	assert.strictEqual(tracker.getContext(), "attribute");
+	return escapeAttributeValue(value, tracker.getAttributeName(), tracker.getScriptPosition(), tracker.isUnquotedAttribute());
+}
+
+describe("HtmlContextTracker", () => {
+	it("stays in text after an apostrophe in body text", () => {
+		assert.strictEqual(contextAfter("<p>It's "), "text");
+		assert.strictEqual(contextAfter(`<p>The "best" one</p> `), "text");
+	});
+
+	it("tracks attribute values", () => {
+		assert.strictEqual(contextAfter('<a href="'), "attribute");
+		assert.strictEqual(contextAfter("<a title='It"), "attribute");
+		assert.strictEqual(contextAfter('<a href="x">'), "text");
+		assert.strictEqual(contextAfter("<div "), "tag");
+	});
+
+	it("tells unquoted attribute values apart", () => {
+		const unquoted = track("<div class=");
+		assert.strictEqual(unquoted.getContext(), "attribute");
+		assert.strictEqual(unquoted.isUnquotedAttribute(), true);
+		assert.strictEqual(contextAfter("<div class=big "), "tag");
+		assert.strictEqual(contextAfter("<div class=big>"), "text");
+		assert.strictEqual(track('<div class="').isUnquotedAttribute(), false);
+	});
+
+	it("ignores quotes inside comments", () => {
+		assert.strictEqual(contextAfter("<!-- it's \"quoted\" "), "comment");
+		assert.strictEqual(contextAfter("<!-- it's \"quoted\" --> "), "text");
+		assert.strictEqual(contextAfter("<!-- <a href=' --> "), "text");
+	});
+
+	it("treats script and style content as raw text", () => {
+		assert.strictEqual(contextAfter("<script>if (a < b) "), "script");
+		assert.strictEqual(contextAfter("<script>const s = '<p title=\"'; "), "script");
+		assert.strictEqual(contextAfter("<script>x();</script> "), "text");
+		assert.strictEqual(contextAfter("<style>p { content: '<a href=\"'; color: "), "style");
+		assert.strictEqual(contextAfter("<style>p {}</STYLE> "), "text");
+	});
+
+	it("doesn't start a tag at a lone <", () => {
+		assert.strictEqual(contextAfter("<p>a < b "), "text");
+		assert.strictEqual(contextAfter("<p>a <3 "), "text");
+		assert.strictEqual(contextAfter("<p>a << b "), "text");
+	});
+
+	it("skips declarations", () => {
+		assert.strictEqual(contextAfter("<!DOCTYPE html>"), "text");
+		assert.strictEqual(contextAfter("<!DOCTYPE html><p class=\""), "attribute");
+	});
+
+	it("tracks strings and comments inside scripts", () => {
+		assert.strictEqual(track("<script>const a = ").getScriptPosition(), "code");
+		assert.strictEqual(track("<script>const a = '").getScriptPosition(), "string");
+		assert.strictEqual(track("<script>const a = \"it\\\"s ").getScriptPosition(), "string");
+		assert.strictEqual(track("<script>const a = `").getScriptPosition(), "template");
+		assert.strictEqual(track("<script>const a = 'x'; const b = ").getScriptPosition(), "code");
+		assert.strictEqual(track("<script>// it's\nconst a = ").getScriptPosition(), "code");
+		assert.strictEqual(track("<script>/* it's ").getScriptPosition(), "comment");
+		assert.strictEqual(track("<script>/*/ it's */ const a = ").getScriptPosition(), "code");
+	});
+
+	it("records the name of the attribute being written", () => {
+		assert.strictEqual(track('<a class="x" HREF="').getAttributeName(), "href");
+		assert.strictEqual(track("<a disabled href = '").getAttributeName(), "href");
+		assert.strictEqual(track("<a title=x href=").getAttributeName(), "href");
+	});
+
+	it("tracks strings inside event handler attributes", () => {
+		assert.strictEqual(track(`<button onclick="f('`).getScriptPosition(), "string");
+		assert.strictEqual(track(`<button onclick="f(`).getScriptPosition(), "code");
+		assert.strictEqual(track(`<button onclick='f("x", `).getScriptPosition(), "code");
+	});
+});
+
+describe("attribute escaping", () => {
+	it("keeps values inside the JavaScript string of an event handler", () => {
+		const inserted = insertAttribute(`<button onclick="f('`, "');alert(1);('");
+		assert.strictEqual(inserted, "\\u0027);alert(1);(\\u0027");
+		// Decoding the entities, as the browser does before running the handler, still leaves no quote
+		assert.ok(!/['"]/.test(inserted.replace(/&#39;/g, "'").replace(/&quot;/g, '"')));
+	});
+
+	it("inserts values in event handler code as literals", () => {
+		assert.strictEqual(insertAttribute(`<button onclick="f(`, "alert(1)"), "&quot;alert(1)&quot;");
+	});
+
+	it("drops javascript: URLs from URL attributes", () => {
+		assert.strictEqual(insertAttribute('<a href="', "javascript:alert(1)"), "");
+		assert.strictEqual(insertAttribute("<img src=", " JavaScript:alert(1)"), "");
+		assert.strictEqual(insertAttribute('<a href="', "java\tscript:alert(1)"), "");
+		assert.strictEqual(insertAttribute('<a href="', "https://example.com/?q=javascript:"), "https://example.com/?q=javascript:");
+		assert.strictEqual(insertAttribute('<a title="', "javascript:alert(1)"), "javascript:alert(1)");
+	});
+});
+
+describe("script escaping", () => {
+	it("keeps values inside a string literal", () => {
+		assert.strictEqual(escapeScriptString(`'"\`\${x}\\`), "\\u0027\\\"\\u0060\\u0024{x}\\\\");
+		assert.strictEqual(escapeScriptString("</script>"), "\\u003c/script\\u003e");
+	});
+
+	it("turns values in code into complete literals", () => {
+		assert.strictEqual(toScriptLiteral("alert(1)"), '"alert(1)"');
+		assert.strictEqual(toScriptLiteral("</script><script>"), '"\\u003c/script\\u003e\\u003cscript\\u003e"');
+		assert.strictEqual(toScriptLiteral("a\u2028b\u2029"), '"a\\u2028b\\u2029"');
+		assert.strictEqual(toScriptLiteral(42), "42");
+		assert.strictEqual(toScriptLiteral(true), "true");
+		assert.strictEqual(toScriptLiteral(["a", "b"]), '["a","b"]');
+		assert.strictEqual(toScriptLiteral(undefined), "null");
+	});
+});
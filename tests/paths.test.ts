@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import { setPropertyValue } from "../src/paths";
+
+describe("setPropertyValue", () => {
+	it("creates nested objects and lists", () => {
+		const frontmatter: Record<string, unknown> = {};
+		setPropertyValue(frontmatter, "book.rating", 4);
+		setPropertyValue(frontmatter, "authors[0]", "A");
+		assert.deepStrictEqual(frontmatter, { book: { rating: 4 }, authors: ["A"] });
+	});
+
+	it("writes a key that contains dots as is", () => {
+		const frontmatter: Record<string, unknown> = { "book.rating": 1 };
+		setPropertyValue(frontmatter, "book.rating", 2);
+		assert.deepStrictEqual(frontmatter, { "book.rating": 2 });
+	});
+
+	it("rejects prototype keys", () => {
+		for (const path of ["__proto__.polluted", "a.constructor.prototype.polluted", "constructor"]) {
+			assert.throws(() => setPropertyValue({}, path, true));
+		}
+		assert.strictEqual(({} as Record<string, unknown>).polluted, undefined);
+	});
+
+	it("doesn't walk into inherited properties", () => {
+		const frontmatter: Record<string, unknown> = {};
+		setPropertyValue(frontmatter, "toString.x", 1);
+		assert.deepStrictEqual(frontmatter, { toString: { x: 1 } });
+	});
+
+	it("rejects named keys of lists", () => {
+		assert.throws(() => setPropertyValue({ tags: ["a"] }, "tags.first", "b"));
+		assert.throws(() => setPropertyValue({ tags: ["a"] }, "tags.length", 0));
+	});
+});
@@ -0,0 +1,31 @@
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Bundles each tests/*.test.ts file on its own and runs them with the Node.js test runner
+const testFiles = readdirSync("tests").filter(name => name.endsWith(".test.ts"));
+const outdir = mkdtempSync(join(tmpdir(), "custom-views-tests-"));
+
+let status = 1;
+try {
+	await esbuild.build({
+		entryPoints: testFiles.map(name => join("tests", name)),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		external: ["obsidian"],
+		outdir,
+		logLevel: "warning",
+	});
+
+	const bundles = testFiles.map(name => join(outdir, name.replace(/\.ts$/, ".js")));
+	status = spawnSync(process.execPath, ["--test", ...bundles], { stdio: "inherit" }).status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
+
+process.exit(status);